@@ -7,10 +7,14 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { TableCell, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { handlingOptions, HandlingIcons } from "@/components/handling-icons";
 import { useToast } from "@/hooks/use-toast";
 import { Check, X, Edit, Trash2 } from "lucide-react";
-import { insertItemSchema, type InsertItem, type Item } from "@shared/schema";
+import { insertItemSchema, packingGroups, type InsertItem, type Item } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { TRUCK_CONFIGURATIONS } from "@shared/packing/truck-configs";
+import { ADR_CLASSES } from "@shared/packing/adr";
 
 interface EditableItemRowProps {
   item: Item;
@@ -21,6 +25,7 @@ interface EditableItemRowProps {
 const subtypeOptions = {
   pallet: [
     { value: "europallet", label: "EUR Pallet (120x80cm)" },
+    { value: "industrial", label: "Industrial Pallet (120x100cm)" },
     { value: "custom", label: "Custom Dimensions" }
   ],
   tank: [
@@ -30,9 +35,31 @@ const subtypeOptions = {
   EWC: [
     { value: "800x1200", label: "EWC 800x1200cm" },
     { value: "1000x1200", label: "EWC 1000x1200cm" }
+  ],
+  other: [
+    { value: "custom", label: "Custom Dimensions" }
   ]
 };
 
+const rotationOptions = [
+  { value: "allowed", label: "Free" },
+  { value: "forbidden", label: "No rotation" },
+  { value: "lengthwise", label: "Long side along truck" }
+];
+
+const zoneOptions = Array.from(new Set(
+  Object.values(TRUCK_CONFIGURATIONS).flatMap(config => config.zones.map(zone => zone.name))
+));
+const anyZone = "any";
+const noAdr = "none";
+
+// e.g. "UN1203 · 3 · II"
+const formatAdr = (item: Item) => item.adr_class
+  ? [item.un_number && `UN${item.un_number.replace(/^UN/i, "")}`, item.adr_class, item.packing_group]
+      .filter(Boolean)
+      .join(" · ")
+  : "—";
+
 export function EditableItemRow({ item, onDelete, isDeleting }: EditableItemRowProps) {
   const [isEditing, setIsEditing] = useState(false);
   const { toast } = useToast();
@@ -45,7 +72,21 @@ export function EditableItemRow({ item, onDelete, isDeleting }: EditableItemRowP
       type: item.type,
       subtype: item.subtype,
       number_of_items: item.number_of_items,
-      weight_kg: item.weight_kg
+      weight_kg: item.weight_kg,
+      length_cm: item.length_cm,
+      width_cm: item.width_cm,
+      height_cm: item.height_cm,
+      rotation: item.rotation,
+      delivery_stop: item.delivery_stop,
+      pinned_zone: item.pinned_zone,
+      un_number: item.un_number,
+      adr_class: item.adr_class,
+      packing_group: item.packing_group,
+      fragile: item.fragile,
+      no_stack: item.no_stack,
+      max_top_load_kg: item.max_top_load_kg,
+      keep_upright: item.keep_upright,
+      away_from_doors: item.away_from_doors
     }
   });
 
@@ -98,6 +139,11 @@ export function EditableItemRow({ item, onDelete, isDeleting }: EditableItemRowP
     form.setValue("subtype", "");
   };
 
+  const handlingFlags = handlingOptions.map(option => option.value).filter(flag => form.watch(flag));
+  const handleHandlingChange = (flags: string[]) => {
+    handlingOptions.forEach(option => form.setValue(option.value, flags.includes(option.value)));
+  };
+
   if (isEditing) {
     return (
       <TableRow>
@@ -119,6 +165,7 @@ export function EditableItemRow({ item, onDelete, isDeleting }: EditableItemRowP
               <SelectItem value="pallet">Pallet</SelectItem>
               <SelectItem value="tank">Tank</SelectItem>
               <SelectItem value="EWC">EWC</SelectItem>
+              <SelectItem value="other">Other goods</SelectItem>
             </SelectContent>
           </Select>
         </TableCell>
@@ -162,6 +209,149 @@ export function EditableItemRow({ item, onDelete, isDeleting }: EditableItemRowP
             className="h-8 text-right"
           />
         </TableCell>
+        <TableCell>
+          <div className="flex gap-1">
+            <Input
+              {...form.register("length_cm", { 
+                setValueAs: (value) => value === "" || value === null ? null : parseFloat(value)
+              })}
+              type="number"
+              min="1"
+              placeholder="L"
+              className="h-8 w-16 text-right"
+            />
+            <Input
+              {...form.register("width_cm", { 
+                setValueAs: (value) => value === "" || value === null ? null : parseFloat(value)
+              })}
+              type="number"
+              min="1"
+              placeholder="W"
+              className="h-8 w-16 text-right"
+            />
+          </div>
+        </TableCell>
+        <TableCell>
+          <Input
+            {...form.register("height_cm", { 
+              setValueAs: (value) => value === "" || value === null ? null : parseFloat(value)
+            })}
+            type="number"
+            min="1"
+            placeholder="Default"
+            className="h-8 text-right"
+          />
+        </TableCell>
+        <TableCell>
+          <Select 
+            value={form.watch("rotation")} 
+            onValueChange={(value) => form.setValue("rotation", value as InsertItem["rotation"])}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {rotationOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </TableCell>
+        <TableCell>
+          <Input
+            {...form.register("delivery_stop", { 
+              setValueAs: (value) => value === "" || value === null ? null : parseInt(value)
+            })}
+            type="number"
+            min="1"
+            step="1"
+            placeholder="Last"
+            className="h-8 text-right"
+          />
+        </TableCell>
+        <TableCell>
+          <Select 
+            value={form.watch("pinned_zone") ?? anyZone} 
+            onValueChange={(value) => form.setValue("pinned_zone", value === anyZone ? null : value)}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={anyZone}>Any</SelectItem>
+              {zoneOptions.map((zone) => (
+                <SelectItem key={zone} value={zone}>
+                  {zone}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </TableCell>
+        <TableCell>
+          <div className="flex gap-1">
+            <Input
+              {...form.register("un_number", { 
+                setValueAs: (value) => value?.trim() || null
+              })}
+              placeholder="UN"
+              className="h-8 w-16"
+            />
+            <Select 
+              value={form.watch("adr_class") ?? noAdr} 
+              onValueChange={(value) => form.setValue("adr_class", value === noAdr ? null : value)}
+            >
+              <SelectTrigger className="h-8 w-20">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={noAdr}>—</SelectItem>
+                {ADR_CLASSES.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select 
+              value={form.watch("packing_group") ?? noAdr} 
+              onValueChange={(value) => form.setValue("packing_group", value === noAdr ? null : value as InsertItem["packing_group"])}
+            >
+              <SelectTrigger className="h-8 w-16">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={noAdr}>—</SelectItem>
+                {packingGroups.map((group) => (
+                  <SelectItem key={group} value={group}>
+                    {group}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </TableCell>
+        <TableCell>
+          <div className="flex gap-1">
+            <ToggleGroup type="multiple" size="sm" value={handlingFlags} onValueChange={handleHandlingChange}>
+              {handlingOptions.map(({ value, label, icon: Icon }) => (
+                <ToggleGroupItem key={value} value={value} title={label} className="h-8 w-8 p-0">
+                  <Icon className="h-4 w-4" />
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <Input
+              {...form.register("max_top_load_kg", { 
+                setValueAs: (value) => value === "" || value === null ? null : parseFloat(value)
+              })}
+              type="number"
+              min="0"
+              placeholder="Top kg"
+              className="h-8 w-20 text-right"
+            />
+          </div>
+        </TableCell>
         <TableCell>
           <div className="flex gap-1 justify-center">
             <Button
@@ -199,6 +389,28 @@ export function EditableItemRow({ item, onDelete, isDeleting }: EditableItemRowP
       <TableCell className="text-muted-foreground">{item.subtype}</TableCell>
       <TableCell className="text-right">{item.number_of_items}</TableCell>
       <TableCell className="text-right">{item.weight_kg} kg</TableCell>
+      <TableCell className="text-right text-muted-foreground whitespace-nowrap">
+        {item.length_cm || item.width_cm ? `${item.length_cm ?? "–"} × ${item.width_cm ?? "–"} cm` : "Default"}
+      </TableCell>
+      <TableCell className="text-right text-muted-foreground">
+        {item.height_cm ? `${item.height_cm} cm` : "Default"}
+      </TableCell>
+      <TableCell className="text-muted-foreground">
+        {rotationOptions.find(option => option.value === item.rotation)?.label}
+      </TableCell>
+      <TableCell className="text-right text-muted-foreground">
+        {item.delivery_stop ?? "Last"}
+      </TableCell>
+      <TableCell className="text-muted-foreground">
+        {item.pinned_zone ?? "Any"}
+      </TableCell>
+      <TableCell className="text-muted-foreground whitespace-nowrap">
+        {formatAdr(item)}
+      </TableCell>
+      <TableCell className="text-muted-foreground whitespace-nowrap">
+        <HandlingIcons flags={handlingOptions.map(option => option.value).filter(flag => item[flag])} />
+        {item.max_top_load_kg !== null && <span className="ml-1 text-xs">≤{item.max_top_load_kg} kg</span>}
+      </TableCell>
       <TableCell>
         <div className="flex gap-1 justify-center">
           <Button
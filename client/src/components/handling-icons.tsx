@@ -0,0 +1,28 @@
+import { ArrowBigUp, Ban, DoorOpen, GlassWater, type LucideIcon } from "lucide-react";
+import type { HandlingFlag } from "@shared/schema";
+
+export const handlingOptions: Array<{ value: HandlingFlag; label: string; icon: LucideIcon }> = [
+  { value: "fragile", label: "Fragile", icon: GlassWater },
+  { value: "no_stack", label: "Do not stack", icon: Ban },
+  { value: "keep_upright", label: "Keep upright", icon: ArrowBigUp },
+  { value: "away_from_doors", label: "Away from doors", icon: DoorOpen }
+];
+
+interface HandlingIconsProps {
+  flags: HandlingFlag[];
+  className?: string;
+}
+
+export function HandlingIcons({ flags, className = "h-4 w-4" }: HandlingIconsProps) {
+  return (
+    <span className="inline-flex gap-1">
+      {handlingOptions
+        .filter(option => flags.includes(option.value))
+        .map(({ value, label, icon: Icon }) => (
+          <span key={value} title={label}>
+            <Icon className={className} />
+          </span>
+        ))}
+    </span>
+  );
+}
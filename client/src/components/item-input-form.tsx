@@ -7,15 +7,20 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { handlingOptions } from "@/components/handling-icons";
 import { useToast } from "@/hooks/use-toast";
 import { Package, Plus } from "lucide-react";
-import { insertItemSchema, type InsertItem } from "@shared/schema";
+import { insertItemSchema, packingGroups, type InsertItem } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { TRUCK_CONFIGURATIONS } from "@shared/packing/truck-configs";
+import { ADR_CLASSES } from "@shared/packing/adr";
 
 const subtypeOptions = {
   pallet: [
     { value: "europallet", label: "EUR Pallet (120x80cm)" },
+    { value: "industrial", label: "Industrial Pallet (120x100cm)" },
     { value: "custom", label: "Custom Dimensions" }
   ],
   tank: [
@@ -25,9 +30,25 @@ const subtypeOptions = {
   EWC: [
     { value: "800x1200", label: "EWC 800x1200cm" },
     { value: "1000x1200", label: "EWC 1000x1200cm" }
+  ],
+  other: [
+    { value: "custom", label: "Custom Dimensions" }
   ]
 };
 
+const rotationOptions = [
+  { value: "allowed", label: "Free" },
+  { value: "forbidden", label: "No rotation" },
+  { value: "lengthwise", label: "Long side along truck" }
+];
+
+// Zone names across all vehicles; an item pinned to a zone the chosen truck lacks stays unplaced
+const zoneOptions = Array.from(new Set(
+  Object.values(TRUCK_CONFIGURATIONS).flatMap(config => config.zones.map(zone => zone.name))
+));
+const anyZone = "any";
+const noAdr = "none";
+
 export function ItemInputForm() {
   const [selectedType, setSelectedType] = useState<string>("");
   const { toast } = useToast();
@@ -40,7 +61,21 @@ export function ItemInputForm() {
       type: "",
       subtype: "",
       number_of_items: 1,
-      weight_kg: 0
+      weight_kg: 0,
+      length_cm: null,
+      width_cm: null,
+      height_cm: null,
+      rotation: "allowed",
+      delivery_stop: null,
+      pinned_zone: null,
+      un_number: null,
+      adr_class: null,
+      packing_group: null,
+      fragile: false,
+      no_stack: false,
+      max_top_load_kg: null,
+      keep_upright: false,
+      away_from_doors: false
     }
   });
 
@@ -119,6 +154,7 @@ export function ItemInputForm() {
                         <SelectItem value="pallet">Pallet</SelectItem>
                         <SelectItem value="tank">Tank</SelectItem>
                         <SelectItem value="EWC">EWC</SelectItem>
+                        <SelectItem value="other">Other goods</SelectItem>
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -209,6 +245,287 @@ export function ItemInputForm() {
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="length_cm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Length (cm)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        min="1" 
+                        placeholder="Catalog default"
+                        value={field.value ?? ""}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          field.onChange(value === "" ? null : parseFloat(value) || null);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="width_cm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{selectedType === "tank" ? "Diameter (cm)" : "Width (cm)"}</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        min="1" 
+                        placeholder="Catalog default"
+                        value={field.value ?? ""}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          field.onChange(value === "" ? null : parseFloat(value) || null);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="height_cm"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Load Height (cm)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        min="1" 
+                        placeholder="Catalog default"
+                        value={field.value ?? ""}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          field.onChange(value === "" ? null : parseFloat(value) || null);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="rotation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Rotation</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {rotationOptions.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="delivery_stop"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Delivery Stop</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        min="1" 
+                        step="1"
+                        placeholder="Final destination"
+                        value={field.value ?? ""}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          field.onChange(value === "" ? null : parseInt(value) || null);
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="pinned_zone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Zone</FormLabel>
+                    <Select
+                      value={field.value ?? anyZone}
+                      onValueChange={(value) => field.onChange(value === anyZone ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={anyZone}>Any zone</SelectItem>
+                        {zoneOptions.map((zone) => (
+                          <SelectItem key={zone} value={zone}>
+                            {zone}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="un_number"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>UN Number</FormLabel>
+                    <FormControl>
+                      <Input 
+                        placeholder="e.g., 1203"
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(e.target.value.trim() || null)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="adr_class"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>ADR Class</FormLabel>
+                    <Select
+                      value={field.value ?? noAdr}
+                      onValueChange={(value) => field.onChange(value === noAdr ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={noAdr}>Not dangerous</SelectItem>
+                        {ADR_CLASSES.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="packing_group"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Packing Group</FormLabel>
+                    <Select
+                      value={field.value ?? noAdr}
+                      onValueChange={(value) => field.onChange(value === noAdr ? null : value)}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={noAdr}>None</SelectItem>
+                        {packingGroups.map((group) => (
+                          <SelectItem key={group} value={group}>
+                            {group}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Handling</Label>
+                {handlingOptions.map((option) => (
+                  <FormField
+                    key={option.value}
+                    control={form.control}
+                    name={option.value}
+                    render={({ field }) => (
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value ?? false}
+                            onCheckedChange={(checked) => field.onChange(checked === true)}
+                          />
+                        </FormControl>
+                        <FormLabel className="flex items-center gap-1 font-normal">
+                          <option.icon className="h-4 w-4 text-muted-foreground" />
+                          {option.label}
+                        </FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="max_top_load_kg"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max Top Load (kg)</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="number" 
+                        min="0" 
+                        placeholder="No limit"
+                        value={field.value ?? ""}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          field.onChange(value === "" ? null : Math.max(0, parseFloat(value) || 0));
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
             <Button 
               type="submit" 
               className="w-full" 
@@ -1,16 +1,59 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
-import { BarChart, Scale, Shield, TrendingUp } from "lucide-react";
-import type { OptimizationOutput } from "@/lib/packing-algorithm";
-import type { TruckConfig } from "@/lib/truck-configs";
+import { AlertTriangle, BarChart, Link, Scale, Shield, TrendingUp } from "lucide-react";
+import type { OptimizationOutput, LimitingFactor, UnplacedItem, UnplacedReason } from "@shared/packing/packing-algorithm";
+import type { TruckConfig } from "@shared/packing/truck-configs";
+import type { DirectionSecuring } from "@shared/packing/load-securing";
+import { EXEMPTION_POINT_LIMIT } from "@shared/packing/adr";
+import type { MovedItem } from "@/lib/incremental-planner";
+
+const limitingFactorLabels: Record<LimitingFactor, string> = {
+  none: "nothing",
+  space: "floor space",
+  weight: "payload (max weight)",
+  height: "roof height",
+  axle: "axle load limits",
+  zone: "zone weight or type limits"
+};
+
+const unplacedReasonLabels: Record<UnplacedReason, string> = {
+  space: "no floor space",
+  weight: "over payload",
+  axle: "axle limit",
+  height: "too tall",
+  adr: "ADR incompatible",
+  zone: "zone limit",
+  dimensions: "unknown dimensions"
+};
+
+// Units of one order line left off for the same reason are listed once
+const groupUnplaced = (items: UnplacedItem[]) => {
+  const groups = new Map<string, { item: UnplacedItem; count: number }>();
+  for (const item of items) {
+    const key = `${item.item_id}|${item.reason}`;
+    const group = groups.get(key);
+    if (group) group.count++;
+    else groups.set(key, { item, count: 1 });
+  }
+  return Array.from(groups.values());
+};
+
+// How one direction is held: friction only, blocked against a wall, or lashed
+const securingMark = (direction: DirectionSecuring) => {
+  if (!direction.secure) return "✗";
+  if (direction.blocking > 0) return "Block";
+  if (direction.lashings > 0) return "Lash";
+  return "μ";
+};
 
 interface OptimizationResultsProps {
   result: OptimizationOutput | null;
   truckConfig: TruckConfig | null;
+  movedItems?: MovedItem[] | null; // set when the plan was updated from an earlier one
 }
 
-export function OptimizationResults({ result, truckConfig }: OptimizationResultsProps) {
+export function OptimizationResults({ result, truckConfig, movedItems = null }: OptimizationResultsProps) {
   if (!result || !truckConfig) {
     return (
       <Card>
@@ -34,10 +77,23 @@ export function OptimizationResults({ result, truckConfig }: OptimizationResults
       case "Optimal": return "bg-green-100 text-green-800";
       case "Unbalanced": return "bg-yellow-100 text-yellow-800";
       case "Overloaded": return "bg-red-100 text-red-800";
+      case "Non-compliant": return "bg-red-100 text-red-800";
       default: return "bg-gray-100 text-gray-800";
     }
   };
 
+  const unfilledGaps = result.gaps.filter(gap => !gap.filled);
+  const securingRows = result.securing?.entries.filter(entry => entry.lashings > 0 || !entry.secure) ?? [];
+  const tractor = truckConfig.axles.tractor;
+  const axleRows = [
+    ...(tractor && result.tractorAxleLoads ? [
+      { label: "Tractor Steer Axle", load: result.tractorAxleLoads.steer, limit: tractor.steerLimit },
+      { label: "Tractor Drive Axle", load: result.tractorAxleLoads.drive, limit: tractor.driveLimit }
+    ] : []),
+    { label: tractor ? "Kingpin" : "Front Axle", load: result.frontAxleLoad, limit: truckConfig.frontAxleLimit },
+    { label: tractor ? "Trailer Axles" : "Rear Axle", load: result.rearAxleLoad, limit: truckConfig.rearAxleLimit }
+  ];
+
   return (
     <div className="space-y-6">
       {/* Load Statistics */}
@@ -64,9 +120,17 @@ export function OptimizationResults({ result, truckConfig }: OptimizationResults
             
             <div className="space-y-2">
               <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Space Utilization</span>
+                <span className="text-muted-foreground">Volume Utilization</span>
                 <span className="font-medium text-blue-600">{result.spaceUtilization}%</span>
               </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Floor Utilization</span>
+                <span className="font-medium">{result.floorUtilization}%</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Loading Metres</span>
+                <span className="font-medium">{(result.usedLength / 100).toFixed(2)} m</span>
+              </div>
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">Items Placed</span>
                 <span className="font-medium">{result.placedItems.length}</span>
@@ -80,8 +144,27 @@ export function OptimizationResults({ result, truckConfig }: OptimizationResults
               <p className="text-sm text-orange-600">
                 ⚠️ {result.remainingItems.length} items could not be placed
               </p>
+              <ul className="mt-1 space-y-1">
+                {groupUnplaced(result.remainingItems).map(({ item, count }) => (
+                  <li key={`${item.item_id}-${item.reason}`} className="text-xs">
+                    <span className="font-medium">{count} × {item.item_id}</span>
+                    <span className="text-muted-foreground"> — {unplacedReasonLabels[item.reason]}</span>
+                    {item.suggestion && <span className="text-blue-600"> · {item.suggestion}</span>}
+                  </li>
+                ))}
+              </ul>
+              {result.limitingFactor !== "none" && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Plan limited by {limitingFactorLabels[result.limitingFactor]}
+                </p>
+              )}
             </div>
           )}
+          {result.releasedLocks.length > 0 && (
+            <p className="text-xs text-orange-600">
+              ⚠️ Lock released for {result.releasedLocks.join(", ")}: the item changed or no longer fits there
+            </p>
+          )}
         </CardContent>
       </Card>
 
@@ -95,41 +178,29 @@ export function OptimizationResults({ result, truckConfig }: OptimizationResults
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-3">
-            <div>
-              <div className="flex justify-between text-sm font-medium mb-1">
-                <span>Front Axle</span>
-                <span>{Math.round(result.frontAxleLoad)} kg / {truckConfig.frontAxleLimit} kg</span>
-              </div>
-              <Progress 
-                value={(result.frontAxleLoad / truckConfig.frontAxleLimit) * 100} 
-                className="h-2"
-              />
-              <div className="text-xs mt-1">
-                {result.frontAxleLoad <= truckConfig.frontAxleLimit ? (
-                  <span className="text-green-600">✓ Within limits</span>
-                ) : (
-                  <span className="text-red-600">⚠️ Overloaded</span>
-                )}
-              </div>
-            </div>
-
-            <div>
-              <div className="flex justify-between text-sm font-medium mb-1">
-                <span>Rear Axle</span>
-                <span>{Math.round(result.rearAxleLoad)} kg / {truckConfig.rearAxleLimit} kg</span>
+            {axleRows.map((row) => (
+              <div key={row.label}>
+                <div className="flex justify-between text-sm font-medium mb-1">
+                  <span>{row.label}</span>
+                  <span>{Math.round(row.load)} kg / {row.limit} kg</span>
+                </div>
+                <Progress 
+                  value={(row.load / row.limit) * 100} 
+                  className="h-2"
+                />
+                <div className="text-xs mt-1">
+                  {row.load <= row.limit ? (
+                    <span className="text-green-600">✓ Within limits</span>
+                  ) : (
+                    <span className="text-red-600">⚠️ Overloaded</span>
+                  )}
+                </div>
               </div>
-              <Progress 
-                value={(result.rearAxleLoad / truckConfig.rearAxleLimit) * 100} 
-                className="h-2"
-              />
-              <div className="text-xs mt-1">
-                {result.rearAxleLoad <= truckConfig.rearAxleLimit ? (
-                  <span className="text-green-600">✓ Within limits</span>
-                ) : (
-                  <span className="text-red-600">⚠️ Overloaded</span>
-                )}
-              </div>
-            </div>
+            ))}
+            <p className="text-xs text-muted-foreground">Axle loads include the unladen vehicle</p>
+            {result.axleIssue && (
+              <p className="text-xs text-red-600">⚠️ {result.axleIssue}</p>
+            )}
           </div>
 
           <div className="pt-3 border-t">
@@ -140,6 +211,53 @@ export function OptimizationResults({ result, truckConfig }: OptimizationResults
               </Badge>
             </div>
           </div>
+
+          {truckConfig.zones.some(zone => zone.maxWeight !== undefined) && (
+            <div className="pt-3 border-t space-y-2">
+              <div className="text-sm font-medium">Zones</div>
+              {truckConfig.zones.map((zone) => (
+                <div key={zone.name} className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">{zone.name}</span>
+                  <span className="font-medium">
+                    {Math.round(result.zoneWeights[zone.name] || 0)} kg
+                    {zone.maxWeight !== undefined && ` / ${zone.maxWeight} kg`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result.centerOfGravity && (
+            <div className="pt-3 border-t space-y-2">
+              <div className="text-sm font-medium">Centre of Gravity</div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">From Front Wall</span>
+                <span className="font-medium">
+                  {Math.round(result.centerOfGravity.y)} cm
+                  <span className="text-muted-foreground font-normal">
+                    {" "}({truckConfig.cogTolerance.longitudinal.min}–{truckConfig.cogTolerance.longitudinal.max})
+                  </span>
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Off Centreline</span>
+                <span className="font-medium">
+                  {Math.round(Math.abs(result.centerOfGravity.x - truckConfig.width / 2))} cm
+                  <span className="text-muted-foreground font-normal"> (max {truckConfig.cogTolerance.lateral})</span>
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Above Floor</span>
+                <span className="font-medium">
+                  {Math.round(result.centerOfGravity.z)} cm
+                  <span className="text-muted-foreground font-normal"> (max {truckConfig.cogTolerance.vertical})</span>
+                </span>
+              </div>
+              {result.stabilityWarnings.map((warning) => (
+                <p key={warning} className="text-xs text-red-600">⚠️ {warning}</p>
+              ))}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -170,9 +288,132 @@ export function OptimizationResults({ result, truckConfig }: OptimizationResults
               <div className="text-sm text-muted-foreground">Pallet Stab.</div>
             </div>
           </div>
+          {unfilledGaps.length > 0 && (
+            <p className="text-xs text-red-600 mt-3">
+              ⚠️ {unfilledGaps.length} void(s) no airbag in stock can close - block or fill them by hand
+            </p>
+          )}
         </CardContent>
       </Card>
 
+      {/* Load Securing (EN 12195-1) */}
+      {result.securing && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Link className="h-5 w-5 text-primary" />
+                Load Securing
+              </span>
+              <Badge className={result.securing.secure ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}>
+                {result.securing.secure ? "Secured" : "Not secured"}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Friction μ</span>
+              <span className="font-medium">
+                {result.securing.frictionUsed}{result.securing.options.antiSlipMats ? " (anti-slip mats)" : ""}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">
+                {result.securing.options.method === "top-over" ? "Top-over" : "Direct"} lashings
+              </span>
+              <span className="font-medium">{result.securing.totalLashings}</span>
+            </div>
+            {securingRows.length > 0 && (
+              <div className="pt-3 border-t space-y-1">
+                <div className="grid grid-cols-6 gap-2 text-xs text-muted-foreground">
+                  <span className="col-span-2">Unit</span>
+                  <span className="text-center">Fwd</span>
+                  <span className="text-center">Rear</span>
+                  <span className="text-center">Side</span>
+                  <span className="text-right">Lashings</span>
+                </div>
+                {securingRows.map((entry) => (
+                  <div key={entry.itemIds.join("+")} className="grid grid-cols-6 gap-2 text-xs">
+                    <span className="col-span-2 truncate" title={`${entry.itemIds.join(", ")} · ${Math.round(entry.weight)} kg`}>
+                      {entry.itemIds.join(", ")}
+                    </span>
+                    <span className="text-center">{securingMark(entry.directions.forward)}</span>
+                    <span className="text-center">{securingMark(entry.directions.rearward)}</span>
+                    <span className="text-center">
+                      {entry.directions.left.secure && entry.directions.right.secure
+                        ? securingMark(entry.directions.left.blocking > 0 ? entry.directions.left : entry.directions.right)
+                        : "✗"}
+                    </span>
+                    <span className={`text-right ${entry.secure ? "" : "text-red-600"}`}>
+                      {Number.isFinite(entry.lashings) ? entry.lashings : "—"}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Dangerous Goods (ADR) */}
+      {(result.adrPoints > 0 || result.adrViolations.length > 0) && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-primary" />
+                Dangerous Goods
+              </span>
+              <Badge className={result.adrViolations.length === 0 ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}>
+                {result.adrViolations.length === 0 ? "Compliant" : `${result.adrViolations.length} violation(s)`}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">1.1.3.6 points</span>
+              <span className="font-medium">
+                {Number.isFinite(result.adrPoints) ? Math.round(result.adrPoints) : "Category 0"} / {EXEMPTION_POINT_LIMIT}
+              </span>
+            </div>
+            {result.adrViolations.map((violation, index) => (
+              <p key={index} className="text-xs text-red-600">
+                ⚠️ {violation.message} ({violation.itemIds.join(", ")})
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Changes Since the Last Plan */}
+      {movedItems && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between">
+              <span>Staged Goods</span>
+              <Badge className={movedItems.length === 0 ? "bg-green-100 text-green-800" : "bg-yellow-100 text-yellow-800"}>
+                {movedItems.length === 0 ? "Unchanged" : `${movedItems.length} moved`}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {movedItems.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every item of the previous plan stays where it is.</p>
+            ) : (
+              <p className="text-xs text-muted-foreground">Positions (across, along) in cm from the front left corner</p>
+            )}
+            {movedItems.map((moved, index) => (
+              <div key={index} className="flex justify-between text-xs">
+                <span className="font-medium">{moved.item_id}</span>
+                <span className="text-muted-foreground">
+                  ({moved.from.x}, {moved.from.y}) → {moved.to ? `(${moved.to.x}, ${moved.to.y})` : "off the truck"}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Remaining Capacity */}
       <Card>
         <CardHeader>
@@ -191,7 +432,13 @@ export function OptimizationResults({ result, truckConfig }: OptimizationResults
             <div className="flex justify-between">
               <span className="text-sm text-muted-foreground">Floor Area</span>
               <span className="text-sm font-medium">
-                {Math.round(((truckConfig.length * truckConfig.width) * (100 - result.spaceUtilization) / 100) / 10000)} m²
+                {Math.round(((truckConfig.length * truckConfig.width) * (100 - result.floorUtilization) / 100) / 10000)} m²
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-sm text-muted-foreground">Headroom</span>
+              <span className="text-sm font-medium">
+                {Math.round(truckConfig.height - result.maxLoadHeight)} cm (load height {Math.round(result.maxLoadHeight)} / {truckConfig.height} cm)
               </span>
             </div>
           </div>
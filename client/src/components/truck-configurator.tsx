@@ -3,7 +3,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Truck } from "lucide-react";
-import { TRUCK_CONFIGURATIONS } from "@/lib/truck-configs";
+import { TRUCK_CONFIGURATIONS } from "@shared/packing/truck-configs";
 
 interface TruckConfiguratorProps {
   selectedTruckType: string;
@@ -58,7 +58,16 @@ export function TruckConfigurator({ selectedTruckType, onTruckTypeChange }: Truc
                 className="bg-muted"
               />
             </div>
-            <div className="col-span-2">
+            <div>
+              <Label htmlFor="truck-height">Height (cm)</Label>
+              <Input
+                id="truck-height"
+                value={selectedConfig.height}
+                readOnly
+                className="bg-muted"
+              />
+            </div>
+            <div>
               <Label htmlFor="max-load">Max Load (kg)</Label>
               <Input
                 id="max-load"
@@ -67,6 +76,24 @@ export function TruckConfigurator({ selectedTruckType, onTruckTypeChange }: Truc
                 className="bg-muted"
               />
             </div>
+            <div>
+              <Label htmlFor="wheelbase">Wheelbase (cm)</Label>
+              <Input
+                id="wheelbase"
+                value={selectedConfig.axles.rearPosition - selectedConfig.axles.frontPosition}
+                readOnly
+                className="bg-muted"
+              />
+            </div>
+            <div>
+              <Label htmlFor="unladen-weight">Unladen Weight (kg)</Label>
+              <Input
+                id="unladen-weight"
+                value={selectedConfig.axles.frontTare + selectedConfig.axles.rearTare}
+                readOnly
+                className="bg-muted"
+              />
+            </div>
           </div>
         )}
       </CardContent>
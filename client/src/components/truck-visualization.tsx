@@ -1,17 +1,48 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Eye } from "lucide-react";
+import { Eye, Lock } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import type { PlacedItem } from "@shared/schema";
-import type { TruckConfig } from "@/lib/truck-configs";
+import type { PlacedItem, PlacedAirbag } from "@shared/schema";
+import type { TruckConfig } from "@shared/packing/truck-configs";
+import type { CenterOfGravity, Gap } from "@shared/packing/packing-algorithm";
+import { getTractorAxlePositions } from "@shared/packing/axle-loads";
+import { handlingOptions } from "@/components/handling-icons";
+
+// Colours for delivery stops 1, 2, 3, …; goods without a stop keep their type colour
+const STOP_COLORS = [
+  { fill: "#F59E0B", stroke: "#B45309" },
+  { fill: "#EF4444", stroke: "#B91C1C" },
+  { fill: "#06B6D4", stroke: "#0E7490" },
+  { fill: "#EC4899", stroke: "#BE185D" },
+  { fill: "#84CC16", stroke: "#4D7C0F" },
+  { fill: "#6366F1", stroke: "#4338CA" }
+];
+
+// Stops are numbered from 1; anything else still gets a colour rather than breaking the render
+const getStopColor = (stop: number) => {
+  const index = (Math.trunc(stop) - 1) % STOP_COLORS.length;
+  return STOP_COLORS[index < 0 ? index + STOP_COLORS.length : index];
+};
 
 interface TruckVisualizationProps {
   placedItems: PlacedItem[];
   truckConfig: TruckConfig | null;
+  centerOfGravity?: CenterOfGravity | null;
+  airbags?: PlacedAirbag[];
+  gaps?: Gap[];
   loading?: boolean;
+  onToggleLock?: (item: PlacedItem) => void; // clicking an item locks or releases its position
 }
 
-export function TruckVisualization({ placedItems, truckConfig, loading = false }: TruckVisualizationProps) {
+export function TruckVisualization({
+  placedItems,
+  truckConfig,
+  centerOfGravity = null,
+  airbags = [],
+  gaps = [],
+  loading = false,
+  onToggleLock
+}: TruckVisualizationProps) {
   if (!truckConfig) {
     return (
       <Card>
@@ -31,8 +62,21 @@ export function TruckVisualization({ placedItems, truckConfig, loading = false }
   }
 
   // Scale truck to fit in SVG - show length horizontally, width vertically
-  const scale = 700 / truckConfig.length; // Scale to fit SVG width
-  const svgHeight = Math.min(400, truckConfig.width * scale + 100);
+  // The tractor's steer axle usually sits ahead of the body, so the drawing makes room for it
+  const tractorAxles = getTractorAxlePositions(truckConfig);
+  const overhang = Math.max(0, -(tractorAxles?.steer ?? 0));
+  const scale = 700 / (truckConfig.length + overhang); // Scale to fit SVG width
+  const originX = 50 + overhang * scale; // SVG x of the body's front wall
+  const svgHeight = Math.min(400, truckConfig.width * scale + 110);
+
+  const axleMarks = [
+    ...(tractorAxles ? [
+      { position: tractorAxles.steer, label: "Steer", tractor: true },
+      { position: tractorAxles.drive, label: "Drive", tractor: true }
+    ] : []),
+    { position: truckConfig.axles.frontPosition, label: tractorAxles ? "Kingpin" : "Front Axle", tractor: false },
+    { position: truckConfig.axles.rearPosition, label: tractorAxles ? "Trailer Axles" : "Rear Axle", tractor: false }
+  ];
 
   const getItemColor = (type: string) => {
     switch (type) {
@@ -43,18 +87,80 @@ export function TruckVisualization({ placedItems, truckConfig, loading = false }
     }
   };
 
+  // Multi-drop plans are coloured by delivery stop instead of item type
+  const stops = Array.from(new Set(
+    placedItems.map(item => item.stop).filter((stop): stop is number => stop !== undefined)
+  )).sort((a, b) => a - b);
+  const colorFor = (item: PlacedItem) =>
+    item.stop !== undefined ? getStopColor(item.stop) : getItemColor(item.type);
+
+  // Stacked items share a footprint, so only the bottom layer is drawn with the layer count
+  const stackSizes = placedItems.reduce<Record<string, number>>((sizes, item) => {
+    if (item.stackId) sizes[item.stackId] = (sizes[item.stackId] || 0) + 1;
+    return sizes;
+  }, {});
+  const floorItems = placedItems.filter(item => item.layer === 1);
+
   const renderItem = (item: PlacedItem, index: number) => {
     // Convert coordinates: items are placed with X along truck width, Y along truck length
     // SVG shows truck length horizontally, width vertically
-    const x = 50 + item.y * scale;  // item.y becomes SVG x (along truck length)
+    const x = originX + item.y * scale;  // item.y becomes SVG x (along truck length)
     const y = 50 + item.x * scale;  // item.x becomes SVG y (along truck width)
     const width = item.height * scale;  // item height becomes SVG width
     const height = item.width * scale;  // item width becomes SVG height
-    const colors = getItemColor(item.type);
+    const colors = colorFor(item);
+    const stackSize = item.stackId ? stackSizes[item.stackId] : 1;
+    const label = item.stackId
+      ? `${item.stackId}: ${placedItems
+          .filter(other => other.stackId === item.stackId)
+          .map(other => `L${other.layer} ${other.item_id} (${other.depth} cm)`)
+          .join(", ")}`
+      : `${item.item_id} · ${item.depth} cm tall${item.rotated ? " · turned" : ""}`;
+    const title = (item.stop !== undefined ? `${label} · stop ${item.stop}` : label) +
+      (item.locked ? " · locked" : "") +
+      (onToggleLock ? ` (click to ${item.locked ? "release" : "lock"})` : "");
+    // A stack carries the hazard and handling flags of any of its layers
+    const layers = item.stackId ? placedItems.filter(other => other.stackId === item.stackId) : [item];
+    const adrClass = layers.find(other => other.adrClass)?.adrClass;
+    const handling = handlingOptions.filter(option => layers.some(other => other.handling?.includes(option.value)));
+    const handlingIcons = handling.map(({ value, label, icon: Icon }, position) => (
+      <g key={value}>
+        <title>{label}</title>
+        <Icon
+          x={x + width - 13 * (position + 1)}
+          y={y + height - 13}
+          width={11}
+          height={11}
+          color="white"
+        />
+      </g>
+    ));
+    const hazard = adrClass && (
+      <g>
+        <title>{`ADR class ${adrClass}`}</title>
+        <rect
+          x={x + 3}
+          y={y + 3}
+          width="9"
+          height="9"
+          transform={`rotate(45 ${x + 7.5} ${y + 7.5})`}
+          fill="#f97316"
+          stroke="#7c2d12"
+          strokeWidth="1"
+        />
+      </g>
+    );
+    const lock = item.locked && (
+      <Lock x={x + width - 13} y={y + 2} width={11} height={11} color="white" />
+    );
+    const clickProps = onToggleLock
+      ? { onClick: () => onToggleLock(item), className: "cursor-pointer" }
+      : {};
 
     if (item.type === "tank") {
       return (
-        <g key={index}>
+        <g key={index} {...clickProps}>
+          <title>{title}</title>
           <circle
             cx={x + width / 2}
             cy={y + height / 2}
@@ -73,12 +179,16 @@ export function TruckVisualization({ placedItems, truckConfig, loading = false }
           >
             {item.item_id.slice(-2)}
           </text>
+          {hazard}
+          {handlingIcons}
+          {lock}
         </g>
       );
     }
 
     return (
-      <g key={index}>
+      <g key={index} {...clickProps}>
+        <title>{title}</title>
         <rect
           x={x}
           y={y}
@@ -97,8 +207,11 @@ export function TruckVisualization({ placedItems, truckConfig, loading = false }
           dominantBaseline="middle"
           className="text-xs font-medium fill-white"
         >
-          {item.item_id.slice(-3)}
+          {item.item_id.slice(-3)}{stackSize > 1 ? ` ×${stackSize}` : ""}
         </text>
+        {hazard}
+        {handlingIcons}
+        {lock}
       </g>
     );
   };
@@ -127,10 +240,48 @@ export function TruckVisualization({ placedItems, truckConfig, loading = false }
               <div className="w-3 h-3 bg-purple-500 rounded" />
               <span className="text-sm text-muted-foreground">EWCs</span>
             </div>
+            {placedItems.some(item => item.type === "other") && (
+              <div className="flex items-center gap-2">
+                <div className="w-3 h-3 bg-gray-500 rounded" />
+                <span className="text-sm text-muted-foreground">Other goods</span>
+              </div>
+            )}
             <div className="flex items-center gap-2">
               <div className="w-3 h-3 bg-gray-400 rounded" />
               <span className="text-sm text-muted-foreground">Airbags</span>
             </div>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded border border-dashed border-destructive" />
+              <span className="text-sm text-muted-foreground">Unfilled voids</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-3 h-3 rounded-full border-2 border-foreground" />
+              <span className="text-sm text-muted-foreground">Centre of Gravity</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="w-2.5 h-2.5 rotate-45 bg-orange-500 border border-orange-900" />
+              <span className="text-sm text-muted-foreground">Dangerous goods</span>
+            </div>
+            {placedItems.some(item => item.locked) && (
+              <div className="flex items-center gap-2">
+                <Lock className="h-3 w-3 text-muted-foreground" />
+                <span className="text-sm text-muted-foreground">Locked</span>
+              </div>
+            )}
+            {handlingOptions
+              .filter(option => placedItems.some(item => item.handling?.includes(option.value)))
+              .map(({ value, label, icon: Icon }) => (
+                <div key={value} className="flex items-center gap-2">
+                  <Icon className="h-3 w-3 text-muted-foreground" />
+                  <span className="text-sm text-muted-foreground">{label}</span>
+                </div>
+              ))}
+            {stops.map(stop => (
+              <div key={stop} className="flex items-center gap-2">
+                <div className="w-3 h-3 rounded" style={{ backgroundColor: getStopColor(stop).fill }} />
+                <span className="text-sm text-muted-foreground">Stop {stop}</span>
+              </div>
+            ))}
           </div>
 
           {/* SVG Visualization */}
@@ -143,7 +294,7 @@ export function TruckVisualization({ placedItems, truckConfig, loading = false }
             >
               {/* Truck outline - thick border */}
               <rect
-                x="50"
+                x={originX}
                 y="50"
                 width={truckConfig.length * scale}
                 height={truckConfig.width * scale}
@@ -158,9 +309,9 @@ export function TruckVisualization({ placedItems, truckConfig, loading = false }
                 <g key={index}>
                   {index > 0 && (
                     <line
-                      x1={50 + zone.x * scale}
+                      x1={originX + zone.x * scale}
                       y1="50"
-                      x2={50 + zone.x * scale}
+                      x2={originX + zone.x * scale}
                       y2={50 + truckConfig.width * scale}
                       stroke="hsl(var(--muted-foreground))"
                       strokeWidth="1"
@@ -168,50 +319,38 @@ export function TruckVisualization({ placedItems, truckConfig, loading = false }
                     />
                   )}
                   <text
-                    x={50 + (zone.x + zone.width / 2) * scale}
+                    x={originX + (zone.x + zone.width / 2) * scale}
                     y="40"
                     textAnchor="middle"
                     className="text-xs fill-muted-foreground"
                   >
-                    {zone.name}
+                    {zone.name}{zone.allowedTypes ? ` (${zone.allowedTypes.join(", ")} only)` : ""}
                   </text>
                 </g>
               ))}
 
               {/* Axle positions */}
-              <line
-                x1={50 + truckConfig.length * 0.2 * scale}
-                y1="40"
-                x2={50 + truckConfig.length * 0.2 * scale}
-                y2={50 + truckConfig.width * scale + 10}
-                stroke="hsl(var(--destructive))"
-                strokeWidth="2"
-              />
-              <text
-                x={50 + truckConfig.length * 0.2 * scale}
-                y="35"
-                textAnchor="middle"
-                className="text-xs fill-destructive"
-              >
-                Front Axle
-              </text>
-
-              <line
-                x1={50 + truckConfig.length * 0.8 * scale}
-                y1="40"
-                x2={50 + truckConfig.length * 0.8 * scale}
-                y2={50 + truckConfig.width * scale + 10}
-                stroke="hsl(var(--destructive))"
-                strokeWidth="2"
-              />
-              <text
-                x={50 + truckConfig.length * 0.8 * scale}
-                y="35"
-                textAnchor="middle"
-                className="text-xs fill-destructive"
-              >
-                Rear Axle
-              </text>
+              {axleMarks.map((mark) => (
+                <g key={mark.label}>
+                  <line
+                    x1={originX + mark.position * scale}
+                    y1={mark.tractor ? 50 : 40}
+                    x2={originX + mark.position * scale}
+                    y2={50 + truckConfig.width * scale + (mark.tractor ? 30 : 10)}
+                    stroke="hsl(var(--destructive))"
+                    strokeWidth="2"
+                    strokeDasharray={mark.tractor ? "4,3" : undefined}
+                  />
+                  <text
+                    x={originX + mark.position * scale}
+                    y={mark.tractor ? 50 + truckConfig.width * scale + 42 : 35}
+                    textAnchor="middle"
+                    className="text-xs fill-destructive"
+                  >
+                    {mark.label}
+                  </text>
+                </g>
+              ))}
 
               {/* Grid pattern */}
               <defs>
@@ -225,7 +364,7 @@ export function TruckVisualization({ placedItems, truckConfig, loading = false }
                 </pattern>
               </defs>
               <rect
-                x="50"
+                x={originX}
                 y="50"
                 width={truckConfig.length * scale}
                 height={truckConfig.width * scale}
@@ -234,11 +373,78 @@ export function TruckVisualization({ placedItems, truckConfig, loading = false }
               />
 
               {/* Placed items */}
-              {placedItems.map(renderItem)}
+              {floorItems.map(renderItem)}
+
+              {/* Airbags, and voids left open */}
+              {airbags.map((airbag, index) => (
+                <rect
+                  key={`airbag-${index}`}
+                  x={originX + airbag.y * scale}
+                  y={50 + airbag.x * scale}
+                  width={airbag.height * scale}
+                  height={airbag.width * scale}
+                  fill="#9CA3AF"
+                  stroke="#4B5563"
+                  strokeWidth="1"
+                  opacity="0.9"
+                >
+                  <title>{`${airbag.type} airbag`}</title>
+                </rect>
+              ))}
+              {gaps.filter(gap => !gap.filled).map((gap, index) => (
+                <rect
+                  key={`gap-${index}`}
+                  x={originX + gap.y * scale}
+                  y={50 + gap.x * scale}
+                  width={gap.height * scale}
+                  height={gap.width * scale}
+                  fill="none"
+                  stroke="hsl(var(--destructive))"
+                  strokeWidth="1"
+                  strokeDasharray="2,2"
+                >
+                  <title>{`Unfilled void ${Math.round(gap.width)} x ${Math.round(gap.height)} cm`}</title>
+                </rect>
+              ))}
+
+              {/* Centre of gravity with its tolerance band */}
+              {centerOfGravity && (
+                <g>
+                  <title>
+                    {`Centre of gravity: ${Math.round(centerOfGravity.y)} cm from the front wall, ` +
+                      `${Math.round(centerOfGravity.z)} cm above the floor`}
+                  </title>
+                  <rect
+                    x={originX + truckConfig.cogTolerance.longitudinal.min * scale}
+                    y={50 + (truckConfig.width / 2 - truckConfig.cogTolerance.lateral) * scale}
+                    width={(truckConfig.cogTolerance.longitudinal.max - truckConfig.cogTolerance.longitudinal.min) * scale}
+                    height={truckConfig.cogTolerance.lateral * 2 * scale}
+                    fill="none"
+                    stroke="hsl(var(--foreground))"
+                    strokeWidth="1"
+                    strokeDasharray="3,3"
+                    opacity="0.6"
+                  />
+                  <circle
+                    cx={originX + centerOfGravity.y * scale}
+                    cy={50 + centerOfGravity.x * scale}
+                    r="7"
+                    fill="hsl(var(--background))"
+                    stroke="hsl(var(--foreground))"
+                    strokeWidth="2"
+                  />
+                  <path
+                    d={`M ${originX + centerOfGravity.y * scale - 7} ${50 + centerOfGravity.x * scale} h 14 ` +
+                      `M ${originX + centerOfGravity.y * scale} ${50 + centerOfGravity.x * scale - 7} v 14`}
+                    stroke="hsl(var(--foreground))"
+                    strokeWidth="2"
+                  />
+                </g>
+              )}
 
               {/* Measurements */}
               <text
-                x={50 + (truckConfig.length * scale) / 2}
+                x={originX + (truckConfig.length * scale) / 2}
                 y={50 + truckConfig.width * scale + 25}
                 textAnchor="middle"
                 className="text-sm fill-foreground"
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { OptimizationInput, OptimizationOutput } from "@shared/packing/packing-algorithm";
+import type { SearchOptions } from "@/lib/plan-search";
+import type { FleetInput, FleetPlan } from "@/lib/fleet-planner";
+import type { ReplanInput, ReplanResult } from "@/lib/incremental-planner";
+import type { OptimizerProgress, OptimizerRequest, OptimizerResponse } from "@/lib/optimizer.worker";
+
+export interface OptimizerRun {
+  result: OptimizationOutput | null;
+  stopped: boolean;
+}
+
+// Runs the packing engine in a Web Worker so the page stays responsive during long searches
+export function useOptimizer() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<{ resolve: (response: OptimizerResponse) => void; reject: (error: Error) => void } | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [progress, setProgress] = useState<OptimizerProgress | null>(null);
+
+  const getWorker = useCallback(() => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL("../lib/optimizer.worker.ts", import.meta.url), { type: "module" });
+      worker.addEventListener("message", (event: MessageEvent<OptimizerResponse>) => {
+        const response = event.data;
+        if (response.type === "progress") {
+          setProgress(response.progress);
+          return;
+        }
+
+        const pending = pendingRef.current;
+        pendingRef.current = null;
+        setIsRunning(false);
+        if (!pending) return;
+
+        if (response.type === "error") {
+          pending.reject(new Error(response.message));
+        } else {
+          pending.resolve(response);
+        }
+      });
+      workerRef.current = worker;
+    }
+    return workerRef.current;
+  }, []);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const send = useCallback((request: OptimizerRequest) => {
+    const worker = getWorker();
+    setProgress(null);
+    setIsRunning(true);
+
+    return new Promise<OptimizerResponse>((resolve, reject) => {
+      pendingRef.current = { resolve, reject };
+      worker.postMessage(request);
+    });
+  }, [getWorker]);
+
+  const run = useCallback(async (input: OptimizationInput, search?: SearchOptions): Promise<OptimizerRun> => {
+    const response = await send({ type: "start", input, search });
+    return response.type === "done"
+      ? { result: response.result, stopped: response.stopped }
+      : { result: null, stopped: true };
+  }, [send]);
+
+  // Resolves with null when the run was stopped before the fleet plan was ready
+  const runFleet = useCallback(async (input: FleetInput): Promise<FleetPlan | null> => {
+    const response = await send({ type: "fleet", input });
+    return response.type === "fleet-done" ? response.fleet : null;
+  }, [send]);
+
+  // Resolves with null when the run was stopped before the new plan was ready
+  const runReplan = useCallback(async (input: ReplanInput): Promise<ReplanResult | null> => {
+    const response = await send({ type: "replan", input });
+    return response.type === "replan-done" ? response.replan : null;
+  }, [send]);
+
+  // keepBest = false discards the run; true ends it early with the best plan found so far
+  const stop = useCallback((keepBest: boolean) => {
+    if (!workerRef.current || !pendingRef.current) return;
+    const request: OptimizerRequest = { type: "stop", keepBest };
+    workerRef.current.postMessage(request);
+  }, []);
+
+  return { run, runFleet, runReplan, stop, isRunning, progress };
+}
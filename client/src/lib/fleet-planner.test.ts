@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { item, NO_AIRBAGS } from "@shared/packing/test-fixtures";
+import { planFleet } from "./fleet-planner";
+
+test("an order one truck takes goes on the smallest type that takes it", () => {
+  const plan = planFleet({
+    items: [item({ item_id: "P", type: "pallet", subtype: "europallet", number_of_items: 10, weight_kg: 5000 })],
+    truckTypes: ["pianale", "container"],
+    airbagInventory: NO_AIRBAGS
+  });
+
+  assert.deepEqual(plan.trucks.map(truck => truck.truckType), ["container"]);
+  assert.deepEqual(plan.unplaceable, []);
+});
+
+test("a large order is spread over as few trucks as possible", () => {
+  const plan = planFleet({
+    items: [item({ item_id: "P", type: "pallet", subtype: "europallet", number_of_items: 50, weight_kg: 25000 })],
+    truckTypes: ["pianale"],
+    airbagInventory: NO_AIRBAGS
+  });
+
+  assert.equal(plan.trucks.length, 2);
+  assert.equal(plan.trucks.reduce((sum, truck) => sum + truck.result.placedItems.length, 0), 50);
+  assert.deepEqual(plan.unplaceable, []);
+});
+
+test("what is left after the last allowed truck is unplaceable", () => {
+  const plan = planFleet({
+    items: [item({ item_id: "P", type: "pallet", subtype: "europallet", number_of_items: 50, weight_kg: 25000 })],
+    truckTypes: ["pianale"],
+    airbagInventory: NO_AIRBAGS,
+    maxTrucks: 1
+  });
+
+  assert.equal(plan.trucks.length, 1);
+  assert.equal(plan.unplaceable.length, 50 - plan.trucks[0].result.placedItems.length);
+});
+
+test("goods no allowed truck takes are unplaceable without using a truck", () => {
+  const plan = planFleet({
+    items: [item({ item_id: "TALL", type: "pallet", subtype: "europallet", number_of_items: 1, weight_kg: 500, height_cm: 300 })],
+    truckTypes: ["pianale", "unknown"],
+    airbagInventory: NO_AIRBAGS
+  });
+
+  assert.deepEqual(plan.trucks, []);
+  assert.deepEqual(plan.unplaceable.map(unit => unit.item_id), ["TALL"]);
+});
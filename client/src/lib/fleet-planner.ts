@@ -0,0 +1,87 @@
+import type { Item, AirbagUsage } from "@shared/schema";
+import { TRUCK_CONFIGURATIONS, type TruckConfig } from "@shared/packing/truck-configs";
+import { PackingAlgorithm, type OptimizationOutput } from "@shared/packing/packing-algorithm";
+import type { SecuringOptions } from "@shared/packing/load-securing";
+
+export interface FleetInput {
+  items: Item[];
+  truckTypes: string[]; // allowed vehicle types, any number of each
+  airbagInventory: AirbagUsage; // shared by all trucks of the order
+  maxTrucks?: number;
+  securing?: SecuringOptions;
+  adrEquipped?: boolean;
+}
+
+export interface TruckPlan {
+  truckType: string;
+  truckConfig: TruckConfig;
+  result: OptimizationOutput;
+}
+
+export interface FleetPlan {
+  trucks: TruckPlan[];
+  unplaceable: Item[]; // fits no allowed truck, or is left over after maxTrucks
+}
+
+const DEFAULT_MAX_TRUCKS = 20;
+
+/**
+ * Spreads an order over as few trucks as possible. Each round loads one more truck with the
+ * type that takes the most of what is left; once a single truck can take the rest, the smallest
+ * type that does so is used for that last load.
+ */
+export function planFleet(input: FleetInput): FleetPlan {
+  const truckTypes = input.truckTypes.filter(type => TRUCK_CONFIGURATIONS[type]);
+  const maxTrucks = input.maxTrucks ?? DEFAULT_MAX_TRUCKS;
+  const trucks: TruckPlan[] = [];
+  let remaining = input.items;
+  let airbags = { ...input.airbagInventory };
+
+  while (remaining.length > 0 && trucks.length < maxTrucks && truckTypes.length > 0) {
+    const candidates = truckTypes.map(truckType => {
+      const truckConfig = TRUCK_CONFIGURATIONS[truckType];
+      const result = PackingAlgorithm.optimize({
+        items: remaining,
+        truckType,
+        truckConfig,
+        airbagInventory: airbags,
+        securing: input.securing,
+        adrEquipped: input.adrEquipped
+      });
+      return { truckType, truckConfig, result };
+    });
+
+    const finishing = candidates
+      .filter(candidate => candidate.result.remainingItems.length === 0)
+      .sort((a, b) => getCapacity(a.truckConfig) - getCapacity(b.truckConfig));
+    const chosen = finishing[0] ?? candidates.reduce((best, candidate) =>
+      compareLoads(candidate.result, best.result) > 0 ? candidate : best
+    );
+
+    if (chosen.result.placedItems.length === 0) break;
+
+    trucks.push(chosen);
+    remaining = chosen.result.remainingItems;
+    airbags = subtractAirbags(airbags, chosen.result.usedAirbags);
+  }
+
+  return { trucks, unplaceable: remaining };
+}
+
+// Positive when a carries more than b: placed units first, then weight
+function compareLoads(a: OptimizationOutput, b: OptimizationOutput): number {
+  return a.placedItems.length - b.placedItems.length || a.totalWeight - b.totalWeight;
+}
+
+function getCapacity(truckConfig: TruckConfig): number {
+  return truckConfig.length * truckConfig.width * truckConfig.height;
+}
+
+function subtractAirbags(inventory: AirbagUsage, used: AirbagUsage): AirbagUsage {
+  return {
+    standard: Math.max(0, inventory.standard - used.standard),
+    small: Math.max(0, inventory.small - used.small),
+    "3d": Math.max(0, inventory["3d"] - used["3d"]),
+    pallet_stabilizer: Math.max(0, inventory.pallet_stabilizer - used.pallet_stabilizer)
+  };
+}
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { PlacedItem } from "@shared/schema";
+import { item, optimize, optimizeInput, placed } from "@shared/packing/test-fixtures";
+import { diffItems, replan } from "./incremental-planner";
+
+const PALLETS = item({ item_id: "P", type: "pallet", subtype: "europallet", number_of_items: 10, weight_kg: 5000 });
+const TANKS = item({ item_id: "T", type: "tank", subtype: "big", number_of_items: 4, weight_kg: 800 });
+
+test("lines are matched by item id, so a new database id is no change", () => {
+  const heavier = { ...PALLETS, id: 7, weight_kg: 6000 };
+
+  assert.deepEqual(diffItems([PALLETS, TANKS], [{ ...TANKS, id: 9 }]), { added: [], removed: [PALLETS], changed: [] });
+  assert.deepEqual(diffItems([PALLETS], [heavier, TANKS]), { added: [TANKS], removed: [], changed: [heavier] });
+});
+
+test("added goods are packed around the staged units without moving them", () => {
+  const previous = optimize([PALLETS]);
+  const items = [PALLETS, TANKS];
+  const { result, moved } = replan({
+    ...optimizeInput(items),
+    previousPlan: previous.placedItems,
+    diff: diffItems([PALLETS], items)
+  });
+
+  assert.deepEqual(moved, []);
+  assert.equal(result.placedItems.length, 14);
+  assert.deepEqual(result.remainingItems, []);
+  assert.ok(result.placedItems.every(placed => !placed.locked));
+});
+
+test("units of a removed line leave the truck and nothing else moves", () => {
+  const previous = optimize([PALLETS, TANKS]);
+  const { result, moved } = replan({
+    ...optimizeInput([PALLETS]),
+    previousPlan: previous.placedItems,
+    diff: diffItems([PALLETS, TANKS], [PALLETS])
+  });
+
+  assert.deepEqual(moved, []);
+  assert.ok(result.placedItems.every(placed => placed.item_id === "P"));
+  const positions = (plan: PlacedItem[]) => plan.map(({ x, y, z }) => `${x},${y},${z}`).sort();
+  assert.deepEqual(positions(result.placedItems), positions(previous.placedItems.filter(placed => placed.item_id === "P")));
+});
+
+test("staged units are let go when holding them would leave goods behind", () => {
+  // A pallet staged in the middle of the floor splits the rows a full load of pallets needs
+  const single = item({ item_id: "P", type: "pallet", subtype: "europallet", number_of_items: 1, weight_kg: 300 });
+  const full = item({ item_id: "O", type: "pallet", subtype: "europallet", number_of_items: 33, weight_kg: 9900 });
+  const { result, moved } = replan({
+    ...optimizeInput([single, full]),
+    previousPlan: [placed({ item_id: "P", x: 64, y: 640, weight: 300 })],
+    diff: diffItems([single], [single, full])
+  });
+
+  assert.deepEqual(result.remainingItems, []);
+  assert.equal(moved.length, 1);
+  assert.deepEqual(moved[0].from, { x: 64, y: 640, z: 0 });
+  assert.notEqual(moved[0].to, null);
+});
@@ -0,0 +1,104 @@
+import type { Item, PlacedItem } from "@shared/schema";
+import { PackingAlgorithm, type OptimizationInput, type OptimizationOutput } from "@shared/packing/packing-algorithm";
+
+// Order lines are matched by item_id; editing a line recreates it under a new database id
+export interface ItemDiff {
+  added: Item[];
+  removed: Item[];
+  changed: Item[]; // current versions of lines whose fields differ
+}
+
+export interface ReplanInput extends OptimizationInput {
+  previousPlan: PlacedItem[];
+  diff: ItemDiff;
+}
+
+export interface MovedItem {
+  item_id: string;
+  from: { x: number; y: number; z: number };
+  to: { x: number; y: number; z: number } | null; // null when the unit is no longer on the truck
+}
+
+export interface ReplanResult {
+  result: OptimizationOutput;
+  moved: MovedItem[];
+}
+
+export function diffItems(previous: Item[], current: Item[]): ItemDiff {
+  const before = new Map(previous.map(item => [item.item_id, item]));
+  const after = new Map(current.map(item => [item.item_id, item]));
+  const sameLine = (a: Item, b: Item) =>
+    (Object.keys(a) as Array<keyof Item>).every(key => key === "id" || a[key] === b[key]);
+
+  return {
+    added: current.filter(item => !before.has(item.item_id)),
+    removed: previous.filter(item => !after.has(item.item_id)),
+    changed: current.filter(item => before.has(item.item_id) && !sameLine(before.get(item.item_id)!, item))
+  };
+}
+
+/**
+ * Re-plans after an order change while moving as few staged units as possible. Every unit of a
+ * line still in the order is first held at its previous position (changed lines too, for as long
+ * as their footprint still matches) and the new goods are packed around them. When that leaves
+ * more units off the truck than a fresh plan would, held columns are let go one at a time from
+ * the door end, where goods are loaded last. Locks the planner set are never let go.
+ */
+export function replan(input: ReplanInput): ReplanResult {
+  const { previousPlan, diff, lockedItems = [], ...optimizationInput } = input;
+  const removed = new Set(diff.removed.map(item => item.item_id));
+  const kept = previousPlan.filter(placed => !removed.has(placed.item_id));
+
+  const isUserLock = (placed: PlacedItem) => lockedItems.some(lock => samePosition(lock, placed));
+  const userLocks = kept.filter(isUserLock);
+  const target = PackingAlgorithm.optimize({ ...optimizationInput, lockedItems: userLocks }).remainingItems.length;
+
+  // Stacks are held and let go as a whole
+  const columns = new Map<string, PlacedItem[]>();
+  for (const placed of kept.filter(placed => !isUserLock(placed))) {
+    const key = `${placed.x}_${placed.y}`;
+    columns.set(key, [...(columns.get(key) ?? []), placed]);
+  }
+  const held = Array.from(columns.values()).sort((a, b) => b[0].y - a[0].y);
+
+  let result = PackingAlgorithm.optimize({ ...optimizationInput, lockedItems: [...userLocks, ...held.flat()] });
+  for (let released = 1; released <= held.length && result.remainingItems.length > target; released++) {
+    result = PackingAlgorithm.optimize({
+      ...optimizationInput,
+      lockedItems: [...userLocks, ...held.slice(released).flat()]
+    });
+  }
+
+  // Only the planner's own locks stay locked in the new plan
+  result.placedItems.forEach(placed => {
+    if (placed.locked && !isUserLock(placed)) delete placed.locked;
+  });
+  result.releasedLocks = result.releasedLocks.filter(itemId => userLocks.some(lock => lock.item_id === itemId));
+
+  return { result, moved: findMoved(kept, result.placedItems) };
+}
+
+// Units of one line are interchangeable, so a unit only moved when no unit of its line took its place
+function findMoved(previous: PlacedItem[], current: PlacedItem[]): MovedItem[] {
+  const unmatched = [...current];
+  const moved = previous.filter(placed => {
+    const index = unmatched.findIndex(other => samePosition(other, placed));
+    if (index === -1) return true;
+    unmatched.splice(index, 1);
+    return false;
+  });
+
+  return moved.map(placed => {
+    const index = unmatched.findIndex(other => other.item_id === placed.item_id);
+    const to = index === -1 ? null : unmatched.splice(index, 1)[0];
+    return {
+      item_id: placed.item_id,
+      from: { x: placed.x, y: placed.y, z: placed.z },
+      to: to && { x: to.x, y: to.y, z: to.z }
+    };
+  });
+}
+
+function samePosition(a: PlacedItem, b: PlacedItem): boolean {
+  return a.item_id === b.item_id && a.x === b.x && a.y === b.y && a.z === b.z;
+}
@@ -0,0 +1,100 @@
+import { PackingAlgorithm, type OptimizationInput, type OptimizationOutput } from "@shared/packing/packing-algorithm";
+import { PlanSearch, type SearchOptions } from "./plan-search";
+import { planFleet, type FleetInput, type FleetPlan } from "./fleet-planner";
+import { replan, type ReplanInput, type ReplanResult } from "./incremental-planner";
+import { explainUnplaced } from "@shared/packing/unplaced-advisor";
+
+export type OptimizerRequest =
+  | { type: "start"; input: OptimizationInput; search?: SearchOptions }
+  | { type: "fleet"; input: FleetInput }
+  | { type: "replan"; input: ReplanInput }
+  | { type: "stop"; keepBest: boolean };
+
+export interface OptimizerProgress {
+  bestScore: number;
+  iterations: number;
+  elapsedMs: number;
+  timeBudgetMs: number;
+}
+
+export type OptimizerResponse =
+  | { type: "progress"; progress: OptimizerProgress }
+  | { type: "done"; result: OptimizationOutput | null; stopped: boolean }
+  | { type: "fleet-done"; fleet: FleetPlan }
+  | { type: "replan-done"; replan: ReplanResult }
+  | { type: "error"; message: string };
+
+// Each slice runs this long before yielding, so "stop" messages get handled promptly
+const SLICE_MS = 50;
+
+const ctx = self as unknown as Worker;
+let search: PlanSearch | null = null;
+let searchInput: OptimizationInput | null = null;
+
+function post(response: OptimizerResponse) {
+  ctx.postMessage(response);
+}
+
+// Suggestions cost extra packing runs, so only the plan that is handed back gets them
+function explain(result: OptimizationOutput | null): OptimizationOutput | null {
+  return result && searchInput ? explainUnplaced(searchInput, result) : result;
+}
+
+function runSlice(options: SearchOptions) {
+  if (!search) return;
+
+  try {
+    const sliceEnd = Date.now() + SLICE_MS;
+    while (!search.done && Date.now() < sliceEnd) search.step();
+
+    post({
+      type: "progress",
+      progress: {
+        bestScore: search.bestScore,
+        iterations: search.iterations,
+        elapsedMs: search.elapsedMs,
+        timeBudgetMs: options.timeBudgetMs
+      }
+    });
+
+    if (search.done) {
+      post({ type: "done", result: explain(search.bestResult), stopped: false });
+      search = null;
+    } else {
+      setTimeout(() => runSlice(options), 0);
+    }
+  } catch (error) {
+    search = null;
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+ctx.addEventListener("message", (event: MessageEvent<OptimizerRequest>) => {
+  const request = event.data;
+
+  if (request.type === "stop") {
+    const best = search?.bestResult ?? null;
+    search = null;
+    post({ type: "done", result: request.keepBest ? explain(best) : null, stopped: true });
+    return;
+  }
+
+  try {
+    if (request.type === "fleet") {
+      post({ type: "fleet-done", fleet: planFleet(request.input) });
+    } else if (request.type === "replan") {
+      const replanned = replan(request.input);
+      explainUnplaced(request.input, replanned.result);
+      post({ type: "replan-done", replan: replanned });
+    } else if (request.search) {
+      searchInput = request.input;
+      search = new PlanSearch(request.input, request.search);
+      runSlice(request.search);
+    } else {
+      post({ type: "done", result: explainUnplaced(request.input, PackingAlgorithm.optimize(request.input)), stopped: false });
+    }
+  } catch (error) {
+    search = null;
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,163 @@
+import type { TruckConfig } from "@shared/packing/truck-configs";
+import {
+  PackingAlgorithm,
+  type OptimizationInput,
+  type OptimizationOutput,
+  type OrientationPreference,
+  type PackingStrategy
+} from "@shared/packing/packing-algorithm";
+
+// Relative importance of each part of the objective; higher scores are better
+export interface ObjectiveWeights {
+  placedItems: number; // reward per placed item
+  axleBalance: number; // penalty per unit of axle overload plus front/rear imbalance (share of each limit)
+  loadingMetres: number; // penalty per metre of loading length used
+  airbags: number; // penalty per airbag used
+}
+
+export const DEFAULT_OBJECTIVE_WEIGHTS: ObjectiveWeights = {
+  placedItems: 10,
+  axleBalance: 5,
+  loadingMetres: 1,
+  airbags: 0.2
+};
+
+export interface SearchOptions {
+  timeBudgetMs: number;
+  weights?: ObjectiveWeights;
+  seed?: number;
+}
+
+const ORIENTATION_PREFERENCES: OrientationPreference[] = ["auto", "catalog", "turned"];
+
+export function scorePlan(result: OptimizationOutput, truckConfig: TruckConfig, weights: ObjectiveWeights): number {
+  const tractor = truckConfig.axles.tractor;
+  const overload =
+    Math.max(0, result.frontAxleLoad - truckConfig.frontAxleLimit) / truckConfig.frontAxleLimit +
+    Math.max(0, result.rearAxleLoad - truckConfig.rearAxleLimit) / truckConfig.rearAxleLimit +
+    (tractor && result.tractorAxleLoads
+      ? Math.max(0, result.tractorAxleLoads.steer - tractor.steerLimit) / tractor.steerLimit +
+        Math.max(0, result.tractorAxleLoads.drive - tractor.driveLimit) / tractor.driveLimit
+      : 0);
+  const imbalance = Math.abs(
+    result.frontAxleLoad / truckConfig.frontAxleLimit - result.rearAxleLoad / truckConfig.rearAxleLimit
+  );
+  const airbags = Object.values(result.usedAirbags).reduce((sum, count) => sum + count, 0);
+
+  return weights.placedItems * result.placedItems.length -
+    weights.axleBalance * (overload + imbalance) -
+    weights.loadingMetres * (result.usedLength / 100) -
+    weights.airbags * airbags;
+}
+
+/**
+ * Simulated annealing over group packing order and per-group orientation. Each candidate is
+ * one greedy PackingAlgorithm pass, so the plain greedy plan is the starting point and the best
+ * plan can only get better. Work is done in step() slices so callers can report progress or stop.
+ */
+export class PlanSearch {
+  iterations = 0;
+
+  private readonly weights: ObjectiveWeights;
+  private readonly startedAt = Date.now();
+  private readonly random: () => number;
+  // Scores of strategies already packed; only the best plan itself is kept
+  private readonly evaluated = new Map<string, number>();
+  private current: { strategy: Required<PackingStrategy>; score: number };
+  private best: { result: OptimizationOutput; score: number };
+
+  constructor(private readonly input: OptimizationInput, private readonly options: SearchOptions) {
+    this.weights = options.weights ?? DEFAULT_OBJECTIVE_WEIGHTS;
+    this.random = createRandom(options.seed ?? Date.now());
+
+    const groupOrder = PackingAlgorithm.getGroupKeys(input.items);
+    const strategy = {
+      groupOrder,
+      orientations: Object.fromEntries(groupOrder.map(key => [key, "auto" as OrientationPreference]))
+    };
+    const result = PackingAlgorithm.optimize({ ...input, strategy });
+    const score = scorePlan(result, input.truckConfig, this.weights);
+    this.evaluated.set(JSON.stringify(strategy), score);
+    this.current = { strategy, score };
+    this.best = { result, score };
+  }
+
+  get bestResult(): OptimizationOutput {
+    return this.best.result;
+  }
+
+  get bestScore(): number {
+    return this.best.score;
+  }
+
+  get elapsedMs(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  get done(): boolean {
+    return this.elapsedMs >= this.options.timeBudgetMs;
+  }
+
+  step(count = 1): void {
+    for (let i = 0; i < count && !this.done; i++) {
+      const candidate = this.neighbour(this.current.strategy);
+      const score = this.evaluate(candidate);
+
+      // Temperature falls linearly over the time budget
+      const temperature = Math.max(0.01, 1 - this.elapsedMs / this.options.timeBudgetMs);
+      const delta = score - this.current.score;
+      if (delta >= 0 || this.random() < Math.exp(delta / temperature)) {
+        this.current = { strategy: candidate, score };
+      }
+      this.iterations++;
+    }
+  }
+
+  run(): OptimizationOutput {
+    while (!this.done) this.step(10);
+    return this.bestResult;
+  }
+
+  private evaluate(strategy: Required<PackingStrategy>): number {
+    const key = JSON.stringify(strategy);
+    const known = this.evaluated.get(key);
+    if (known !== undefined) return known;
+
+    const result = PackingAlgorithm.optimize({ ...this.input, strategy });
+    const score = scorePlan(result, this.input.truckConfig, this.weights);
+    this.evaluated.set(key, score);
+    if (score > this.best.score) this.best = { result, score };
+    return score;
+  }
+
+  private neighbour(strategy: Required<PackingStrategy>): Required<PackingStrategy> {
+    const groupOrder = [...strategy.groupOrder];
+    const orientations = { ...strategy.orientations };
+    const pick = () => Math.floor(this.random() * groupOrder.length);
+
+    if (groupOrder.length > 1 && this.random() < 0.5) {
+      // Swap two groups in the packing order
+      const a = pick();
+      const b = pick();
+      [groupOrder[a], groupOrder[b]] = [groupOrder[b], groupOrder[a]];
+    } else if (groupOrder.length > 0) {
+      const key = groupOrder[pick()];
+      const choices = ORIENTATION_PREFERENCES.filter(preference => preference !== orientations[key]);
+      orientations[key] = choices[Math.floor(this.random() * choices.length)];
+    }
+
+    return { groupOrder, orientations };
+  }
+}
+
+// mulberry32: small seeded generator so a search can be replayed
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -5,6 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { TruckConfigurator } from "@/components/truck-configurator";
@@ -12,11 +17,33 @@ import { ItemInputForm } from "@/components/item-input-form";
 import { TruckVisualization } from "@/components/truck-visualization";
 import { OptimizationResults } from "@/components/optimization-results";
 import { EditableItemRow } from "@/components/editable-item-row";
-import { Truck, List, Settings } from "lucide-react";
-import { TRUCK_CONFIGURATIONS } from "@/lib/truck-configs";
-import { PackingAlgorithm, type OptimizationOutput } from "@/lib/packing-algorithm";
+import { Truck, List, Settings, Sparkles, Layers, Link, AlertTriangle } from "lucide-react";
+import { TRUCK_CONFIGURATIONS } from "@shared/packing/truck-configs";
+import type { OptimizationInput, OptimizationOutput } from "@shared/packing/packing-algorithm";
+import { DEFAULT_OBJECTIVE_WEIGHTS, type ObjectiveWeights } from "@/lib/plan-search";
+import type { FleetPlan } from "@/lib/fleet-planner";
+import { DEFAULT_SECURING_OPTIONS, type LashingMethod, type SecuringOptions } from "@shared/packing/load-securing";
+import { diffItems, type ItemDiff, type MovedItem } from "@/lib/incremental-planner";
+import { useOptimizer } from "@/hooks/use-optimizer";
 import { apiRequest } from "@/lib/queryClient";
-import type { Item, AirbagUsage } from "@shared/schema";
+import type { Item, AirbagUsage, PlacedItem } from "@shared/schema";
+
+const objectiveWeightFields: Array<{ key: keyof ObjectiveWeights; label: string }> = [
+  { key: "placedItems", label: "Placed items" },
+  { key: "axleBalance", label: "Axle balance" },
+  { key: "loadingMetres", label: "Loading metres" },
+  { key: "airbags", label: "Airbag count" }
+];
+
+// apiRequest errors read "<status>: <body>"; JSON bodies carry a message
+const getServerMessage = (error: unknown) => {
+  const text = error instanceof Error ? error.message.replace(/^\d+: /, "") : String(error);
+  try {
+    return JSON.parse(text).message ?? text;
+  } catch {
+    return text;
+  }
+};
 
 export default function Home() {
   const [selectedTruckType, setSelectedTruckType] = useState<string>("");
@@ -27,7 +54,22 @@ export default function Home() {
     pallet_stabilizer: 15
   });
   const [optimizationResult, setOptimizationResult] = useState<OptimizationOutput | null>(null);
-  const [isOptimizing, setIsOptimizing] = useState(false);
+  const optimizer = useOptimizer();
+  const isOptimizing = optimizer.isRunning;
+  const [searchEnabled, setSearchEnabled] = useState(false);
+  const [searchSeconds, setSearchSeconds] = useState(5);
+  const [objectiveWeights, setObjectiveWeights] = useState<ObjectiveWeights>(DEFAULT_OBJECTIVE_WEIGHTS);
+  const [fleetEnabled, setFleetEnabled] = useState(false);
+  const [fleetExtraTypes, setFleetExtraTypes] = useState<string[]>([]);
+  const [fleetPlan, setFleetPlan] = useState<FleetPlan | null>(null);
+  const [securingOptions, setSecuringOptions] = useState<SecuringOptions>(DEFAULT_SECURING_OPTIONS);
+  const [adrEquipped, setAdrEquipped] = useState(false);
+  // Locks outlive the plan they were set on, so editing the order keeps them
+  const [lockedItems, setLockedItems] = useState<PlacedItem[]>([]);
+  // The last single-truck plan, kept across order edits so a re-plan can leave staged goods in place
+  const [lastPlan, setLastPlan] = useState<{ truckType: string; items: Item[]; placedItems: PlacedItem[] } | null>(null);
+  const [keepStaged, setKeepStaged] = useState(true);
+  const [movedItems, setMovedItems] = useState<MovedItem[] | null>(null);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -36,6 +78,7 @@ export default function Home() {
   useEffect(() => {
     const handleItemsChanged = () => {
       setOptimizationResult(null);
+      setFleetPlan(null);
     };
     window.addEventListener('itemsChanged', handleItemsChanged);
     return () => window.removeEventListener('itemsChanged', handleItemsChanged);
@@ -84,22 +127,136 @@ export default function Home() {
       return;
     }
 
-    setIsOptimizing(true);
+    if (fleetEnabled) {
+      await planFleetLoads();
+      return;
+    }
+
+    const truckConfig = TRUCK_CONFIGURATIONS[selectedTruckType];
+    const input = {
+      items,
+      truckType: selectedTruckType,
+      truckConfig,
+      airbagInventory,
+      securing: securingOptions,
+      adrEquipped,
+      lockedItems
+    };
+
+    // Staged goods are only kept when the order changed since the last plan; Search Mode always
+    // plans from scratch, and the switch is off while it is on
+    const diff = lastPlan ? diffItems(lastPlan.items, items) : null;
+    const orderChanged = diff !== null && diff.added.length + diff.removed.length + diff.changed.length > 0;
+    if (keepStaged && !searchEnabled && orderChanged && lastPlan?.truckType === selectedTruckType) {
+      await replanLoads(input, lastPlan, diff);
+      return;
+    }
+
     try {
-      const truckConfig = TRUCK_CONFIGURATIONS[selectedTruckType];
-      const result = PackingAlgorithm.optimize({
-        items,
-        truckType: selectedTruckType,
-        truckConfig,
-        airbagInventory
-      });
+      const { result, stopped } = await optimizer.run(
+        input,
+        searchEnabled ? { timeBudgetMs: searchSeconds * 1000, weights: objectiveWeights } : undefined
+      );
+
+      if (!result) {
+        toast({
+          title: "Optimization cancelled",
+          description: "The previous plan was left unchanged."
+        });
+        return;
+      }
 
       setOptimizationResult(result);
+      setLockedItems(result.placedItems.filter(placed => placed.locked));
+      setLastPlan({ truckType: selectedTruckType, items, placedItems: result.placedItems });
+      setMovedItems(null);
+      setFleetPlan(null);
 
       // Save optimization result to backend
+      await saveResult(selectedTruckType, items, result);
+
+      toast({
+        title: stopped ? "Search stopped" : "Optimization complete",
+        description: stopped
+          ? `Kept the best plan found so far with ${result.spaceUtilization}% volume utilization.`
+          : `Successfully optimized loading plan with ${result.spaceUtilization}% volume utilization.`
+      });
+    } catch (error) {
+      toast({
+        title: "Optimization failed",
+        description: "Failed to optimize loading plan. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const replanLoads = async (input: OptimizationInput, previous: NonNullable<typeof lastPlan>, diff: ItemDiff) => {
+    try {
+      const replanned = await optimizer.runReplan({
+        ...input,
+        previousPlan: previous.placedItems,
+        diff
+      });
+      if (!replanned) return;
+
+      const { result, moved } = replanned;
+      setOptimizationResult(result);
+      setLockedItems(result.placedItems.filter(placed => placed.locked));
+      setLastPlan({ truckType: input.truckType, items, placedItems: result.placedItems });
+      setMovedItems(moved);
+      setFleetPlan(null);
+
+      await saveResult(input.truckType, items, result);
+
+      toast({
+        title: "Plan updated",
+        description: moved.length === 0
+          ? "All staged goods stay where they are."
+          : `${moved.length} staged item(s) had to move.`
+      });
+    } catch (error) {
+      toast({
+        title: "Optimization failed",
+        description: "Failed to update the loading plan. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const planFleetLoads = async () => {
+    try {
+      const truckTypes = [selectedTruckType, ...fleetExtraTypes.filter(type => type !== selectedTruckType)];
+      const plan = await optimizer.runFleet({ items, truckTypes, airbagInventory, securing: securingOptions, adrEquipped });
+      if (!plan) return;
+
+      setFleetPlan(plan);
+      setOptimizationResult(null);
+
+      for (const truck of plan.trucks) {
+        await saveResult(truck.truckType, items, truck.result);
+      }
+
+      toast({
+        title: "Fleet plan complete",
+        description: plan.unplaceable.length > 0
+          ? `Order split over ${plan.trucks.length} trucks; ${plan.unplaceable.length} items fit no selected truck.`
+          : `Order split over ${plan.trucks.length} trucks.`
+      });
+    } catch (error) {
+      toast({
+        title: "Optimization failed",
+        description: "Failed to split the order across trucks. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // The server refuses plans that break the loading rules; the plan stays on screen either way
+  const saveResult = async (truckType: string, orderItems: Item[], result: OptimizationOutput) => {
+    try {
       await apiRequest("POST", "/api/optimize", {
-        truck_type: selectedTruckType,
-        items: items,
+        truck_type: truckType,
+        items: orderItems,
         placed_items: result.placedItems,
         used_airbags: result.usedAirbags,
         total_weight: result.totalWeight,
@@ -108,19 +265,12 @@ export default function Home() {
         space_utilization: result.spaceUtilization,
         weight_utilization: result.weightUtilization
       });
-
-      toast({
-        title: "Optimization complete",
-        description: `Successfully optimized loading plan with ${result.spaceUtilization}% space utilization.`
-      });
     } catch (error) {
       toast({
-        title: "Optimization failed",
-        description: "Failed to optimize loading plan. Please try again.",
+        title: "Plan not saved",
+        description: getServerMessage(error),
         variant: "destructive"
       });
-    } finally {
-      setIsOptimizing(false);
     }
   };
 
@@ -128,6 +278,7 @@ export default function Home() {
     deleteItemMutation.mutate(id);
     // Clear optimization results when items change
     setOptimizationResult(null);
+    setFleetPlan(null);
   };
 
   const handleClearAll = async () => {
@@ -138,6 +289,9 @@ export default function Home() {
       }
       // Clear optimization results
       setOptimizationResult(null);
+      setFleetPlan(null);
+      setLockedItems([]);
+      setLastPlan(null);
       // Refresh items list
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
       toast({
@@ -155,6 +309,23 @@ export default function Home() {
 
 
 
+  const handleTruckTypeChange = (truckType: string) => {
+    setSelectedTruckType(truckType);
+    // Positions are only meaningful in the truck they were locked in
+    setLockedItems([]);
+  };
+
+  // Locks and releases a whole stack by its floor footprint
+  const handleToggleLock = (item: PlacedItem) => {
+    if (!optimizationResult) return;
+    const locked = !item.locked;
+    const placedItems = optimizationResult.placedItems.map(placed =>
+      placed.x === item.x && placed.y === item.y ? { ...placed, locked: locked || undefined } : placed
+    );
+    setOptimizationResult({ ...optimizationResult, placedItems });
+    setLockedItems(placedItems.filter(placed => placed.locked));
+  };
+
   const selectedTruckConfig = selectedTruckType ? TRUCK_CONFIGURATIONS[selectedTruckType] : null;
 
   return (
@@ -186,7 +357,7 @@ export default function Home() {
             {/* Truck Configuration */}
             <TruckConfigurator
               selectedTruckType={selectedTruckType}
-              onTruckTypeChange={setSelectedTruckType}
+              onTruckTypeChange={handleTruckTypeChange}
             />
 
             {/* Item Input Form */}
@@ -250,13 +421,210 @@ export default function Home() {
               </CardContent>
             </Card>
 
+            {/* Multi-Truck Split */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Layers className="h-5 w-5 text-primary" />
+                  Multi-Truck Split
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="fleet-enabled" className="text-sm">Spread the order over several trucks</Label>
+                  <Switch
+                    id="fleet-enabled"
+                    checked={fleetEnabled}
+                    onCheckedChange={setFleetEnabled}
+                  />
+                </div>
+                {fleetEnabled && (
+                  <div className="space-y-2">
+                    <p className="text-xs text-muted-foreground">
+                      Uses the selected truck type plus any types ticked below.
+                    </p>
+                    {Object.entries(TRUCK_CONFIGURATIONS)
+                      .filter(([key]) => key !== selectedTruckType)
+                      .map(([key, config]) => (
+                        <div key={key} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`fleet-${key}`}
+                            checked={fleetExtraTypes.includes(key)}
+                            onCheckedChange={(checked) => setFleetExtraTypes(prev =>
+                              checked ? [...prev, key] : prev.filter(type => type !== key)
+                            )}
+                          />
+                          <Label htmlFor={`fleet-${key}`} className="text-sm font-normal">{config.name}</Label>
+                        </div>
+                      ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
 
+            {/* Load Securing */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Link className="h-5 w-5 text-primary" />
+                  Load Securing
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="anti-slip" className="text-sm">Anti-slip mats</Label>
+                  <Switch
+                    id="anti-slip"
+                    checked={securingOptions.antiSlipMats}
+                    onCheckedChange={(checked) => setSecuringOptions(prev => ({ ...prev, antiSlipMats: checked }))}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="friction" className="text-xs">Friction μ</Label>
+                    <Input
+                      id="friction"
+                      type="number"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={securingOptions.friction}
+                      onChange={(e) => setSecuringOptions(prev => ({ ...prev, friction: parseFloat(e.target.value) || 0 }))}
+                      className="text-sm"
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-xs">Lashing</Label>
+                    <Select
+                      value={securingOptions.method}
+                      onValueChange={(value) => setSecuringOptions(prev => ({ ...prev, method: value as LashingMethod }))}
+                    >
+                      <SelectTrigger className="text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="top-over">Top-over</SelectItem>
+                        <SelectItem value="direct">Direct</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="stf" className="text-xs">STF (daN)</Label>
+                    <Input
+                      id="stf"
+                      type="number"
+                      min="1"
+                      value={securingOptions.standardTension}
+                      onChange={(e) => setSecuringOptions(prev => ({ ...prev, standardTension: parseInt(e.target.value) || 0 }))}
+                      className="text-sm"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="lc" className="text-xs">LC (daN)</Label>
+                    <Input
+                      id="lc"
+                      type="number"
+                      min="1"
+                      value={securingOptions.lashingCapacity}
+                      onChange={(e) => setSecuringOptions(prev => ({ ...prev, lashingCapacity: parseInt(e.target.value) || 0 }))}
+                      className="text-sm"
+                    />
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Dangerous Goods */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-primary" />
+                  Dangerous Goods
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="adr-equipped" className="text-sm">ADR-equipped vehicle and driver</Label>
+                  <Switch
+                    id="adr-equipped"
+                    checked={adrEquipped}
+                    onCheckedChange={setAdrEquipped}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Without it, loads above 1000 points under ADR 1.1.3.6 are flagged.
+                </p>
+              </CardContent>
+            </Card>
+
+            {/* Search Mode */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Sparkles className="h-5 w-5 text-primary" />
+                  Search Mode
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="search-enabled" className="text-sm">Explore orderings and orientations</Label>
+                  <Switch
+                    id="search-enabled"
+                    checked={searchEnabled}
+                    onCheckedChange={setSearchEnabled}
+                  />
+                </div>
+                {searchEnabled && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="col-span-2">
+                      <Label htmlFor="search-seconds" className="text-xs">Time budget (s)</Label>
+                      <Input
+                        id="search-seconds"
+                        type="number"
+                        min="1"
+                        max="60"
+                        value={searchSeconds}
+                        onChange={(e) => setSearchSeconds(Math.max(1, parseInt(e.target.value) || 1))}
+                        className="text-sm"
+                      />
+                    </div>
+                    {objectiveWeightFields.map(({ key, label }) => (
+                      <div key={key}>
+                        <Label htmlFor={`weight-${key}`} className="text-xs">{label}</Label>
+                        <Input
+                          id={`weight-${key}`}
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          value={objectiveWeights[key]}
+                          onChange={(e) => setObjectiveWeights(prev => ({ ...prev, [key]: parseFloat(e.target.value) || 0 }))}
+                          className="text-sm"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </div>
 
           {/* Right Panel - Visualization and Results */}
           <div className="lg:col-span-2 space-y-6">
             {/* Action Buttons */}
-            <div className="flex justify-end gap-3">
+            <div className="flex justify-end items-center gap-3">
+              {lastPlan?.truckType === selectedTruckType && (
+                <div className="flex items-center gap-2 mr-auto">
+                  <Switch
+                    id="keep-staged"
+                    checked={keepStaged && !searchEnabled}
+                    disabled={searchEnabled}
+                    onCheckedChange={setKeepStaged}
+                  />
+                  <Label htmlFor="keep-staged" className="text-sm">
+                    Keep staged goods in place{searchEnabled && " (off in Search Mode)"}
+                  </Label>
+                </div>
+              )}
               <Button 
                 onClick={handleClearAll}
                 disabled={items.length === 0}
@@ -274,6 +642,34 @@ export default function Home() {
                 {isOptimizing ? "Optimizing..." : "Optimize Loading Plan"}
               </Button>
             </div>
+
+            {/* Search Progress */}
+            {isOptimizing && optimizer.progress && (
+              <Card>
+                <CardContent className="pt-6 space-y-3">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">
+                      {optimizer.progress.iterations} iterations · best score {optimizer.progress.bestScore.toFixed(1)}
+                    </span>
+                    <span className="font-medium">
+                      {(optimizer.progress.elapsedMs / 1000).toFixed(1)} / {optimizer.progress.timeBudgetMs / 1000} s
+                    </span>
+                  </div>
+                  <Progress
+                    value={(optimizer.progress.elapsedMs / optimizer.progress.timeBudgetMs) * 100}
+                    className="h-2"
+                  />
+                  <div className="flex justify-end gap-3">
+                    <Button variant="outline" size="sm" onClick={() => optimizer.stop(false)}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={() => optimizer.stop(true)}>
+                      Keep Best So Far
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
             {/* Items List */}
             <Card>
               <CardHeader>
@@ -301,6 +697,13 @@ export default function Home() {
                         <TableHead>Subtype</TableHead>
                         <TableHead className="text-right">Qty</TableHead>
                         <TableHead className="text-right">Weight</TableHead>
+                        <TableHead className="text-right">L × W</TableHead>
+                        <TableHead className="text-right">Height</TableHead>
+                        <TableHead>Rotation</TableHead>
+                        <TableHead className="text-right">Stop</TableHead>
+                        <TableHead>Zone</TableHead>
+                        <TableHead>ADR</TableHead>
+                        <TableHead>Handling</TableHead>
                         <TableHead className="text-center">Actions</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -319,18 +722,58 @@ export default function Home() {
               </CardContent>
             </Card>
 
-            {/* Truck Visualization */}
-            <TruckVisualization
-              placedItems={optimizationResult?.placedItems || []}
-              truckConfig={selectedTruckConfig}
-              loading={isOptimizing}
-            />
+            {fleetPlan ? (
+              <Tabs defaultValue="truck-0" className="space-y-6">
+                <TabsList className="flex-wrap h-auto">
+                  {fleetPlan.trucks.map((truck, index) => (
+                    <TabsTrigger key={index} value={`truck-${index}`}>
+                      Truck {index + 1} · {truck.truckType}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                {fleetPlan.unplaceable.length > 0 && (
+                  <p className="text-sm text-orange-600">
+                    ⚠️ {fleetPlan.unplaceable.length} items fit none of the selected trucks
+                  </p>
+                )}
+                {fleetPlan.trucks.map((truck, index) => (
+                  <TabsContent key={index} value={`truck-${index}`} className="space-y-6">
+                    <TruckVisualization
+                      placedItems={truck.result.placedItems}
+                      truckConfig={truck.truckConfig}
+                      centerOfGravity={truck.result.centerOfGravity}
+                      airbags={truck.result.airbags}
+                      gaps={truck.result.gaps}
+                      loading={isOptimizing}
+                    />
+                    <OptimizationResults
+                      result={truck.result}
+                      truckConfig={truck.truckConfig}
+                    />
+                  </TabsContent>
+                ))}
+              </Tabs>
+            ) : (
+              <>
+                {/* Truck Visualization */}
+                <TruckVisualization
+                  placedItems={optimizationResult?.placedItems || []}
+                  truckConfig={selectedTruckConfig}
+                  centerOfGravity={optimizationResult?.centerOfGravity}
+                  airbags={optimizationResult?.airbags}
+                  gaps={optimizationResult?.gaps}
+                  loading={isOptimizing}
+                  onToggleLock={optimizationResult ? handleToggleLock : undefined}
+                />
 
-            {/* Optimization Results */}
-            <OptimizationResults
-              result={optimizationResult}
-              truckConfig={selectedTruckConfig}
-            />
+                {/* Optimization Results */}
+                <OptimizationResults
+                  result={optimizationResult}
+                  truckConfig={selectedTruckConfig}
+                  movedItems={movedItems}
+                />
+              </>
+            )}
           </div>
         </div>
       </div>
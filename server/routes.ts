@@ -1,7 +1,12 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertItemSchema, insertOptimizationResultSchema } from "@shared/schema";
+import { storage, buildItem } from "./storage";
+import { z } from "zod";
+import { insertItemSchema, insertOptimizationResultSchema, optimizeRequestSchema, placedItemSchema } from "@shared/schema";
+import { TRUCK_CONFIGURATIONS } from "@shared/packing/truck-configs";
+import { PackingAlgorithm } from "@shared/packing/packing-algorithm";
+import { explainUnplaced } from "@shared/packing/unplaced-advisor";
+import { validatePlan } from "@shared/packing/plan-validator";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Items endpoints
@@ -42,6 +47,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/optimize", async (req, res) => {
     try {
       const validatedData = insertOptimizationResultSchema.parse(req.body);
+      if (!Object.hasOwn(TRUCK_CONFIGURATIONS, validatedData.truck_type)) {
+        return res.status(400).json({ message: `Unknown truck type ${validatedData.truck_type}` });
+      }
+      const truckConfig = TRUCK_CONFIGURATIONS[validatedData.truck_type];
+
+      // Only plans that keep to the loading rules are stored
+      const placedItems = z.array(placedItemSchema).parse(validatedData.placed_items);
+      const violations = validatePlan(placedItems, truckConfig);
+      if (violations.length > 0) {
+        return res.status(422).json({
+          message: `Plan breaks ${violations.length} loading rule(s): ${violations[0].message}`,
+          violations
+        });
+      }
+
       const result = await storage.createOptimizationResult(validatedData);
       res.json(result);
     } catch (error) {
@@ -49,6 +69,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Plans computed on the server, for callers without a browser such as the ERP. Order lines are
+  // taken as given and not added to the item list; the plan is stored like one sent to /api/optimize.
+  app.post("/api/optimize/run", async (req, res) => {
+    let request;
+    try {
+      request = optimizeRequestSchema.parse(req.body);
+    } catch (error) {
+      return res.status(400).json({ message: "Invalid optimization request" });
+    }
+
+    if (!Object.hasOwn(TRUCK_CONFIGURATIONS, request.truck_type)) {
+      return res.status(400).json({ message: `Unknown truck type ${request.truck_type}` });
+    }
+    const truckConfig = TRUCK_CONFIGURATIONS[request.truck_type];
+
+    try {
+      const items = request.items.map((item, index) => buildItem(index + 1, item));
+      const input = {
+        items,
+        truckType: request.truck_type,
+        truckConfig,
+        airbagInventory: request.airbag_inventory,
+        adrEquipped: request.adr_equipped
+      };
+      const plan = explainUnplaced(input, PackingAlgorithm.optimize(input));
+
+      const violations = validatePlan(plan.placedItems, truckConfig);
+      if (violations.length > 0) {
+        return res.status(422).json({
+          message: `Plan breaks ${violations.length} loading rule(s): ${violations[0].message}`,
+          violations,
+          plan
+        });
+      }
+
+      const result = await storage.createOptimizationResult({
+        truck_type: request.truck_type,
+        items,
+        placed_items: plan.placedItems,
+        used_airbags: plan.usedAirbags,
+        total_weight: plan.totalWeight,
+        front_axle_load: plan.frontAxleLoad,
+        rear_axle_load: plan.rearAxleLoad,
+        space_utilization: plan.spaceUtilization,
+        weight_utilization: plan.weightUtilization
+      });
+      res.json({ ...result, plan });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to optimize loading plan" });
+    }
+  });
+
   app.get("/api/optimization-results", async (req, res) => {
     try {
       const results = await storage.getOptimizationResults();
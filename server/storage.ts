@@ -1,4 +1,4 @@
-import { items, optimizationResults, type Item, type InsertItem, type OptimizationResult, type InsertOptimizationResult } from "@shared/schema";
+import { items, optimizationResults, stackableTypes, type Item, type InsertItem, type OptimizationResult, type InsertOptimizationResult } from "@shared/schema";
 
 export interface IStorage {
   // Items
@@ -27,18 +27,7 @@ export class MemStorage implements IStorage {
 
   async createItem(insertItem: InsertItem): Promise<Item> {
     const id = this.currentItemId++;
-    
-    // Determine stackable based on item type
-    let stackable = false;
-    if (insertItem.type === "EWC") {
-      stackable = true;
-    }
-    
-    const item: Item = { 
-      ...insertItem, 
-      id,
-      stackable
-    };
+    const item = buildItem(id, insertItem);
     
     this.items.set(id, item);
     return item;
@@ -73,4 +62,27 @@ export class MemStorage implements IStorage {
   }
 }
 
+// Fills in the column defaults of an item line, as the database would
+export function buildItem(id: number, insertItem: InsertItem): Item {
+  return { 
+    ...insertItem, 
+    id,
+    length_cm: insertItem.length_cm ?? null,
+    width_cm: insertItem.width_cm ?? null,
+    height_cm: insertItem.height_cm ?? null,
+    rotation: insertItem.rotation ?? "allowed",
+    delivery_stop: insertItem.delivery_stop ?? null,
+    pinned_zone: insertItem.pinned_zone ?? null,
+    un_number: insertItem.un_number ?? null,
+    adr_class: insertItem.adr_class ?? null,
+    packing_group: insertItem.packing_group ?? null,
+    fragile: insertItem.fragile ?? false,
+    no_stack: insertItem.no_stack ?? false,
+    max_top_load_kg: insertItem.max_top_load_kg ?? null,
+    keep_upright: insertItem.keep_upright ?? false,
+    away_from_doors: insertItem.away_from_doors ?? false,
+    stackable: stackableTypes.includes(insertItem.type)
+  };
+}
+
 export const storage = new MemStorage();
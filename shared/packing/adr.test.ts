@@ -0,0 +1,88 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  ADR_SEPARATION_CM,
+  calculateExemptionPoints,
+  checkAdr,
+  getAdrRule,
+  getFootprintDistance,
+  getTransportCategory
+} from "./adr";
+import { item, placed } from "./test-fixtures";
+
+test("explosives are never loaded with other dangerous goods, oxidisers are kept apart", () => {
+  assert.equal(getAdrRule("1", "3"), "forbidden");
+  assert.equal(getAdrRule("8", "1"), "forbidden");
+  assert.equal(getAdrRule("1", "1"), null);
+  assert.equal(getAdrRule("5.1", "3"), "separate");
+  assert.equal(getAdrRule("3", "5.1"), "separate");
+  assert.equal(getAdrRule("3", "8"), null);
+});
+
+test("transport categories follow the UN number, then the packing group, then the class", () => {
+  assert.equal(getTransportCategory({ un_number: null, adr_class: null, packing_group: "I" }), null);
+  assert.equal(getTransportCategory({ un_number: "UN1203", adr_class: "3", packing_group: "III" }), 2);
+  assert.equal(getTransportCategory({ un_number: "1202", adr_class: "3", packing_group: "II" }), 3);
+  assert.equal(getTransportCategory({ un_number: null, adr_class: "8", packing_group: "I" }), 1);
+  assert.equal(getTransportCategory({ un_number: null, adr_class: "2.3", packing_group: null }), 1);
+  assert.equal(getTransportCategory({ un_number: null, adr_class: "6.2", packing_group: null }), 0);
+  assert.equal(getTransportCategory({ un_number: null, adr_class: "9", packing_group: null }), 3);
+});
+
+test("1.1.3.6 points weigh each kilogram by its transport category", () => {
+  const points = calculateExemptionPoints([
+    item({ item_id: "A", type: "pallet", subtype: "europallet", number_of_items: 1, weight_kg: 300, adr_class: "3", packing_group: "II" }),
+    item({ item_id: "B", type: "pallet", subtype: "europallet", number_of_items: 1, weight_kg: 200, adr_class: "8", packing_group: "III" }),
+    item({ item_id: "C", type: "pallet", subtype: "europallet", number_of_items: 1, weight_kg: 10, adr_class: "6.1", packing_group: "I" }),
+    item({ item_id: "D", type: "pallet", subtype: "europallet", number_of_items: 1, weight_kg: 5000 })
+  ]);
+
+  assert.equal(points, 3 * 300 + 200 + 50 * 10);
+  assert.equal(calculateExemptionPoints([
+    item({ item_id: "E", type: "pallet", subtype: "europallet", number_of_items: 1, weight_kg: 1, adr_class: "7" })
+  ]), Number.POSITIVE_INFINITY);
+});
+
+test("footprint distance is measured between the nearest edges", () => {
+  const a = { x: 0, y: 0, width: 100, height: 100 };
+
+  assert.equal(getFootprintDistance(a, { x: 50, y: 50, width: 100, height: 100 }), 0);
+  assert.equal(getFootprintDistance(a, { x: 100, y: 0, width: 100, height: 100 }), 0);
+  assert.equal(getFootprintDistance(a, { x: 130, y: 140, width: 10, height: 10 }), 50);
+});
+
+test("segregated classes closer than the separation distance are reported once per pair of lines", () => {
+  const oxidiser = placed({ item_id: "OX", adrClass: "5.1" });
+  const near = [
+    placed({ item_id: "FL", x: 128, adrClass: "3" }),
+    placed({ item_id: "FL", x: 128, y: 80, adrClass: "3" })
+  ];
+
+  const violations = checkAdr([oxidiser, ...near], [], false);
+  assert.equal(violations.length, 1);
+  assert.equal(violations[0].rule, "segregation");
+  assert.deepEqual(violations[0].itemIds, ["OX", "FL"]);
+
+  const far = placed({ item_id: "FL", y: 80 + ADR_SEPARATION_CM, adrClass: "3" });
+  assert.deepEqual(checkAdr([oxidiser, far], [], false), []);
+});
+
+test("explosives with other dangerous goods break the mixed-loading ban at any distance", () => {
+  const violations = checkAdr([
+    placed({ item_id: "BANG", adrClass: "1" }),
+    placed({ item_id: "ACID", y: 1200, adrClass: "8" })
+  ], [], true);
+
+  assert.deepEqual(violations.map(violation => violation.rule), ["mixed-loading"]);
+});
+
+test("over 1000 points full ADR applies unless the vehicle is equipped for it", () => {
+  const loaded = [
+    item({ item_id: "FUEL", type: "tank", subtype: "big", number_of_items: 1, weight_kg: 600, un_number: "1203", adr_class: "3" })
+  ];
+
+  const violations = checkAdr([], loaded, false);
+  assert.deepEqual(violations.map(violation => violation.rule), ["exemption"]);
+  assert.deepEqual(violations[0].itemIds, ["FUEL"]);
+  assert.deepEqual(checkAdr([], loaded, true), []);
+});
@@ -0,0 +1,150 @@
+import type { Item, PlacedItem } from "@shared/schema";
+
+export const ADR_CLASSES = [
+  { value: "1", label: "1 Explosives" },
+  { value: "2.1", label: "2.1 Flammable gas" },
+  { value: "2.2", label: "2.2 Non-flammable gas" },
+  { value: "2.3", label: "2.3 Toxic gas" },
+  { value: "3", label: "3 Flammable liquid" },
+  { value: "4.1", label: "4.1 Flammable solid" },
+  { value: "4.2", label: "4.2 Spontaneously combustible" },
+  { value: "4.3", label: "4.3 Dangerous when wet" },
+  { value: "5.1", label: "5.1 Oxidiser" },
+  { value: "5.2", label: "5.2 Organic peroxide" },
+  { value: "6.1", label: "6.1 Toxic" },
+  { value: "6.2", label: "6.2 Infectious" },
+  { value: "7", label: "7 Radioactive" },
+  { value: "8", label: "8 Corrosive" },
+  { value: "9", label: "9 Miscellaneous" }
+];
+
+// "forbidden": never on the same vehicle; "separate": at least ADR_SEPARATION_CM apart
+export type AdrRule = "forbidden" | "separate";
+
+export const ADR_SEPARATION_CM = 100;
+
+const SEGREGATION: Record<string, Record<string, AdrRule>> = {
+  "5.1": { "2.1": "separate", "3": "separate", "4.1": "separate", "4.2": "separate", "4.3": "separate", "5.2": "separate", "8": "separate" },
+  "5.2": { "2.1": "separate", "3": "separate", "4.1": "separate", "4.2": "separate", "4.3": "separate", "8": "separate" },
+  "4.3": { "8": "separate" }
+};
+
+export function getAdrRule(a: string, b: string): AdrRule | null {
+  // ADR 7.5.2.1: explosives may not be loaded together with other dangerous goods
+  if ((a === "1") !== (b === "1")) return "forbidden";
+  return SEGREGATION[a]?.[b] ?? SEGREGATION[b]?.[a] ?? null;
+}
+
+// ADR 1.1.3.6: points per kg or litre by transport category; category 0 is never exempt
+export const EXEMPTION_POINT_LIMIT = 1000;
+const CATEGORY_MULTIPLIER: Record<number, number> = { 0: Number.POSITIVE_INFINITY, 1: 50, 2: 3, 3: 1, 4: 0 };
+
+// Common UN numbers whose category differs from the packing-group default
+const CATEGORY_BY_UN: Record<string, number> = {
+  "1005": 1, // ammonia, anhydrous
+  "1202": 3, // diesel fuel
+  "1203": 2, // petrol
+  "1965": 2, // LPG
+  "3082": 3 // environmentally hazardous substance, liquid
+};
+
+/**
+ * Transport category of an item. Without the full dangerous goods list this follows the
+ * packing group (I → 1, II → 2, III → 3), with class defaults for goods that have none.
+ */
+export function getTransportCategory(item: Pick<Item, "un_number" | "adr_class" | "packing_group">): number | null {
+  if (!item.adr_class) return null;
+  const byUn = item.un_number ? CATEGORY_BY_UN[item.un_number.replace(/^UN/i, "")] : undefined;
+  if (byUn !== undefined) return byUn;
+
+  switch (item.packing_group) {
+    case "I": return 1;
+    case "II": return 2;
+    case "III": return 3;
+  }
+  switch (item.adr_class) {
+    case "1":
+    case "2.3": return 1;
+    case "2.1": return 2;
+    case "6.2":
+    case "7": return 0;
+    default: return 3;
+  }
+}
+
+// Quantities are taken as the item weight in kg
+export function calculateExemptionPoints(items: Item[]): number {
+  return items.reduce((sum, item) => {
+    const category = getTransportCategory(item);
+    if (category === null) return sum;
+    const multiplier = CATEGORY_MULTIPLIER[category];
+    if (!Number.isFinite(multiplier)) return multiplier;
+    return sum + multiplier * item.weight_kg;
+  }, 0);
+}
+
+export interface AdrViolation {
+  rule: "mixed-loading" | "segregation" | "exemption";
+  message: string;
+  itemIds: string[];
+}
+
+// Shortest floor distance between two footprints, 0 when they touch or overlap
+export function getFootprintDistance(
+  a: { x: number; y: number; width: number; height: number },
+  b: { x: number; y: number; width: number; height: number }
+): number {
+  const dx = Math.max(0, a.x - (b.x + b.width), b.x - (a.x + a.width));
+  const dy = Math.max(0, a.y - (b.y + b.height), b.y - (a.y + a.height));
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Checks a loaded truck: mixed-loading bans, segregation distances and, unless the vehicle
+ * and driver are ADR-equipped, the 1.1.3.6 small-load exemption.
+ */
+export function checkAdr(placedItems: PlacedItem[], loadedItems: Item[], adrEquipped: boolean): AdrViolation[] {
+  const violations: AdrViolation[] = [];
+  const dangerous = placedItems.filter(item => item.adrClass);
+  const reported = new Set<string>();
+
+  for (let i = 0; i < dangerous.length; i++) {
+    for (let j = i + 1; j < dangerous.length; j++) {
+      const a = dangerous[i];
+      const b = dangerous[j];
+      const rule = getAdrRule(a.adrClass!, b.adrClass!);
+      // Units of one order line share an id; report each pair of lines once
+      const key = [a.item_id, b.item_id].sort().join("|");
+      if (!rule || reported.has(key)) continue;
+
+      if (rule === "forbidden") {
+        reported.add(key);
+        violations.push({
+          rule: "mixed-loading",
+          message: `Class ${a.adrClass} and class ${b.adrClass} may not share a vehicle`,
+          itemIds: [a.item_id, b.item_id]
+        });
+      } else if (getFootprintDistance(a, b) < ADR_SEPARATION_CM) {
+        reported.add(key);
+        violations.push({
+          rule: "segregation",
+          message: `Class ${a.adrClass} and class ${b.adrClass} must be at least ${ADR_SEPARATION_CM} cm apart`,
+          itemIds: [a.item_id, b.item_id]
+        });
+      }
+    }
+  }
+
+  const points = calculateExemptionPoints(loadedItems);
+  if (!adrEquipped && points > EXEMPTION_POINT_LIMIT) {
+    violations.push({
+      rule: "exemption",
+      message: Number.isFinite(points)
+        ? `${Math.round(points)} ADR 1.1.3.6 points exceed ${EXEMPTION_POINT_LIMIT}: full ADR applies to vehicle and driver`
+        : "Goods of transport category 0 are never exempt: full ADR applies to vehicle and driver",
+      itemIds: Array.from(new Set(loadedItems.filter(item => item.adr_class).map(item => item.item_id)))
+    });
+  }
+
+  return violations;
+}
@@ -0,0 +1,54 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { calculateAxleLoads, getItemLoads, getTractorAxlePositions, isAxleOverloaded } from "./axle-loads";
+import { placed } from "./test-fixtures";
+import { TRUCK_CONFIGURATIONS } from "./truck-configs";
+
+const PIANALE = TRUCK_CONFIGURATIONS.pianale;
+const RIMORCHIO = TRUCK_CONFIGURATIONS.rimorchio;
+
+function near(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 0.01, `${actual} is not ${expected}`);
+}
+
+test("a load halfway between the supports splits evenly on top of the tare", () => {
+  // Pianale: kingpin at 120 cm, rear axles at 900 cm
+  const loads = calculateAxleLoads([{ y: 510, weight: 7800 }], PIANALE);
+
+  near(loads.front, 2000 + 3900);
+  near(loads.rear, 4500 + 3900);
+});
+
+test("the kingpin load is shared between the tractor axles by the fifth wheel offset", () => {
+  const loads = calculateAxleLoads([{ y: 510, weight: 7800 }], PIANALE);
+  const steerShare = 5900 * 50 / 370;
+
+  near(loads.tractor!.steer, 5200 + steerShare);
+  near(loads.tractor!.drive, 2600 + 5900 - steerShare);
+  assert.equal(calculateAxleLoads([], RIMORCHIO).tractor, undefined);
+});
+
+test("goods behind the rear axles lift the front support", () => {
+  const loads = calculateAxleLoads([{ y: 1100, weight: 1000 }], PIANALE);
+
+  assert.ok(loads.front < PIANALE.axles.frontTare);
+  near(loads.front + loads.rear, PIANALE.axles.frontTare + PIANALE.axles.rearTare + 1000);
+});
+
+test("items act at the centre of their footprint", () => {
+  assert.deepEqual(
+    getItemLoads([placed({ item_id: "A", y: 100, height: 80, weight: 500 })]),
+    [{ y: 140, weight: 500 }]
+  );
+});
+
+test("any axle over its limit overloads the truck", () => {
+  assert.equal(isAxleOverloaded(calculateAxleLoads([{ y: 510, weight: 7800 }], PIANALE), PIANALE), false);
+  assert.equal(isAxleOverloaded(calculateAxleLoads([{ y: 140, weight: 12000 }], PIANALE), PIANALE), true);
+  assert.equal(isAxleOverloaded(calculateAxleLoads([{ y: 1300, weight: 20000 }], RIMORCHIO), RIMORCHIO), true);
+});
+
+test("the steer axle of the tractor lies ahead of the body", () => {
+  assert.deepEqual(getTractorAxlePositions(PIANALE), { steer: -200, drive: 170 });
+  assert.equal(getTractorAxlePositions(RIMORCHIO), null);
+});
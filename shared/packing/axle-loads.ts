@@ -0,0 +1,62 @@
+import type { PlacedItem } from "@shared/schema";
+import type { TruckConfig } from "./truck-configs";
+
+export interface AxleLoads {
+  front: number; // kingpin / front axle, tare included (kg)
+  rear: number; // rear axle group, tare included (kg)
+  tractor?: { steer: number; drive: number }; // tractor axles with the trailer coupled (kg)
+}
+
+/**
+ * Static moment balance of the body on its two supports. Each item acts at the centre of its
+ * footprint; an item behind the rear axle group lifts the front support, as it does on a weighbridge.
+ * The kingpin load of a semi-trailer is then split between the tractor axles the same way.
+ */
+export function calculateAxleLoads(
+  loads: Array<{ y: number; weight: number }>,
+  truckConfig: TruckConfig
+): AxleLoads {
+  const { frontPosition, rearPosition, frontTare, rearTare, tractor } = truckConfig.axles;
+  const wheelbase = rearPosition - frontPosition;
+
+  let front = frontTare;
+  let rear = rearTare;
+  for (const load of loads) {
+    const rearShare = load.weight * (load.y - frontPosition) / wheelbase;
+    rear += rearShare;
+    front += load.weight - rearShare;
+  }
+
+  if (!tractor) return { front, rear };
+
+  const steerShare = front * tractor.fifthWheelOffset / tractor.wheelbase;
+  return {
+    front,
+    rear,
+    tractor: {
+      steer: tractor.steerTare + steerShare,
+      drive: tractor.driveTare + front - steerShare
+    }
+  };
+}
+
+// Longitudinal point loads of placed items, at the centre of each footprint
+export function getItemLoads(placedItems: PlacedItem[]): Array<{ y: number; weight: number }> {
+  return placedItems.map(item => ({ y: item.y + item.height / 2, weight: item.weight }));
+}
+
+export function isAxleOverloaded(loads: AxleLoads, truckConfig: TruckConfig): boolean {
+  const tractor = truckConfig.axles.tractor;
+  return loads.front > truckConfig.frontAxleLimit ||
+    loads.rear > truckConfig.rearAxleLimit ||
+    (tractor !== undefined && loads.tractor !== undefined &&
+      (loads.tractor.steer > tractor.steerLimit || loads.tractor.drive > tractor.driveLimit));
+}
+
+// Tractor axle positions on the body's length axis; the steer axle usually lies ahead of the body
+export function getTractorAxlePositions(truckConfig: TruckConfig): { steer: number; drive: number } | null {
+  const { frontPosition, tractor } = truckConfig.axles;
+  if (!tractor) return null;
+  const drive = frontPosition + tractor.fifthWheelOffset;
+  return { steer: drive - tractor.wheelbase, drive };
+}
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { FreeSpace } from "./free-space";
+
+test("positions fill from the front wall, then from the left wall", () => {
+  const space = new FreeSpace(248, 1360);
+
+  assert.deepEqual(space.findPosition(120, 80), { x: 0, y: 0 });
+  space.occupy(0, 0, 120, 80);
+  assert.deepEqual(space.findPosition(120, 80), { x: 120, y: 0 });
+  space.occupy(120, 0, 120, 80);
+  assert.deepEqual(space.findPosition(120, 80), { x: 0, y: 80 });
+});
+
+test("occupying a footprint keeps the maximal free rectangles around it", () => {
+  const space = new FreeSpace(248, 1360);
+  space.occupy(100, 500, 48, 100);
+
+  assert.deepEqual(space.rects, [
+    { x: 0, y: 0, width: 100, height: 1360 },
+    { x: 148, y: 0, width: 100, height: 1360 },
+    { x: 0, y: 0, width: 248, height: 500 },
+    { x: 0, y: 600, width: 248, height: 760 }
+  ]);
+});
+
+test("footprints that fit nowhere and vetoed corners are skipped", () => {
+  const space = new FreeSpace(248, 1360);
+
+  assert.equal(space.findPosition(250, 100), null);
+  assert.equal(space.findPosition(100, 100, (x, y) => y >= 300 || x > 0), null);
+  space.occupy(0, 0, 248, 300);
+  assert.deepEqual(space.findPosition(100, 100, (x, y) => y >= 300), { x: 0, y: 300 });
+});
+
+test("a region keeps the whole footprint inside it", () => {
+  const space = new FreeSpace(248, 1360);
+  const rearHalf = { x: 0, y: 680, width: 248, height: 680 };
+
+  assert.deepEqual(space.findPosition(120, 80, undefined, rearHalf), { x: 0, y: 680 });
+  assert.equal(space.findPosition(120, 700, undefined, rearHalf), null);
+});
+
+test("a copy without some rectangles leaves the original as it was", () => {
+  const space = new FreeSpace(248, 1360);
+  const copy = space.without([{ x: 0, y: 0, width: 248, height: 200 }]);
+
+  assert.deepEqual(copy.findPosition(120, 80), { x: 0, y: 200 });
+  assert.deepEqual(space.findPosition(120, 80), { x: 0, y: 0 });
+});
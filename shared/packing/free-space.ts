@@ -0,0 +1,104 @@
+export interface FreeRect {
+  x: number; // across the truck
+  y: number; // along the truck, from the front wall
+  width: number;
+  height: number;
+}
+
+const EPSILON = 0.001;
+
+/**
+ * Tracks the empty truck floor as a set of maximal free rectangles. Every packer places its
+ * footprints through the same instance, so pockets left beside one group stay usable for the next.
+ */
+export class FreeSpace {
+  private freeRects: FreeRect[];
+
+  constructor(width: number, length: number) {
+    this.freeRects = [{ x: 0, y: 0, width, height: length }];
+  }
+
+  get rects(): FreeRect[] {
+    return this.freeRects.map(rect => ({ ...rect }));
+  }
+
+  /**
+   * Returns the free position closest to the front wall (then to the left wall) where a
+   * width x height footprint fits, or null. `accept` can veto candidates, e.g. for roof clearance;
+   * `within` keeps the whole footprint inside a region such as a loading zone.
+   */
+  findPosition(
+    width: number,
+    height: number,
+    accept?: (x: number, y: number) => boolean,
+    within?: FreeRect
+  ): { x: number; y: number } | null {
+    let best: { x: number; y: number } | null = null;
+
+    for (const free of this.freeRects) {
+      const rect = within ? intersection(free, within) : free;
+      if (!rect) continue;
+      if (width > rect.width + EPSILON || height > rect.height + EPSILON) continue;
+      if (best && (rect.y > best.y || (rect.y === best.y && rect.x >= best.x))) continue;
+      if (accept && !accept(rect.x, rect.y)) continue;
+      best = { x: rect.x, y: rect.y };
+    }
+
+    return best;
+  }
+
+  // A copy with the given rectangles taken out as well, for searches that must keep clear of them
+  without(rects: FreeRect[]): FreeSpace {
+    const copy = new FreeSpace(0, 0);
+    copy.freeRects = this.rects;
+    rects.forEach(rect => copy.occupy(rect.x, rect.y, rect.width, rect.height));
+    return copy;
+  }
+
+  occupy(x: number, y: number, width: number, height: number): void {
+    const next: FreeRect[] = [];
+
+    for (const rect of this.freeRects) {
+      if (!intersects(rect, x, y, width, height)) {
+        next.push(rect);
+        continue;
+      }
+
+      // Keep the parts of the free rectangle on each side of the occupied one
+      if (x > rect.x) next.push({ x: rect.x, y: rect.y, width: x - rect.x, height: rect.height });
+      if (x + width < rect.x + rect.width) {
+        next.push({ x: x + width, y: rect.y, width: rect.x + rect.width - (x + width), height: rect.height });
+      }
+      if (y > rect.y) next.push({ x: rect.x, y: rect.y, width: rect.width, height: y - rect.y });
+      if (y + height < rect.y + rect.height) {
+        next.push({ x: rect.x, y: y + height, width: rect.width, height: rect.y + rect.height - (y + height) });
+      }
+    }
+
+    this.freeRects = next.filter((rect, index) =>
+      rect.width > EPSILON && rect.height > EPSILON &&
+      !next.some((other, otherIndex) => otherIndex !== index && contains(other, rect) &&
+        // of two identical rectangles keep the first one
+        (!contains(rect, other) || otherIndex < index))
+    );
+  }
+}
+
+function intersects(rect: FreeRect, x: number, y: number, width: number, height: number): boolean {
+  return x < rect.x + rect.width - EPSILON && x + width > rect.x + EPSILON &&
+    y < rect.y + rect.height - EPSILON && y + height > rect.y + EPSILON;
+}
+
+function intersection(a: FreeRect, b: FreeRect): FreeRect | null {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  const width = Math.min(a.x + a.width, b.x + b.width) - x;
+  const height = Math.min(a.y + a.height, b.y + b.height) - y;
+  return width > EPSILON && height > EPSILON ? { x, y, width, height } : null;
+}
+
+function contains(outer: FreeRect, inner: FreeRect): boolean {
+  return inner.x >= outer.x - EPSILON && inner.y >= outer.y - EPSILON &&
+    inner.x + inner.width <= outer.x + outer.width + EPSILON &&
+    inner.y + inner.height <= outer.y + outer.height + EPSILON;
+}
@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_SECURING_OPTIONS, calculateSecuring } from "./load-securing";
+import { placed } from "./test-fixtures";
+import { TRUCK_CONFIGURATIONS } from "./truck-configs";
+
+const PIANALE = TRUCK_CONFIGURATIONS.pianale;
+
+test("a free-standing tonne needs three top-over lashings for the forward pull", () => {
+  // 0.8 g forward is 784.8 daN; μ 0.3 holds 294.3 daN and each lashing adds 2·0.3·sin 60°·400/1.25 = 166.3 daN
+  const report = calculateSecuring([placed({ item_id: "A", x: 64, y: 600, weight: 1000 })], [], PIANALE);
+  const [entry] = report.entries;
+
+  assert.equal(entry.directions.forward.lashings, 3);
+  assert.equal(entry.directions.rearward.lashings, 2);
+  assert.equal(entry.directions.left.lashings, 2);
+  assert.equal(entry.lashings, 3);
+  assert.equal(report.totalLashings, 3);
+  assert.ok(report.secure);
+});
+
+test("anti-slip mats raise the friction and save lashings", () => {
+  const report = calculateSecuring(
+    [placed({ item_id: "A", x: 64, y: 600, weight: 1000 })],
+    [],
+    PIANALE,
+    { ...DEFAULT_SECURING_OPTIONS, antiSlipMats: true }
+  );
+
+  assert.equal(report.frictionUsed, 0.6);
+  assert.equal(report.entries[0].directions.left.lashings, 0);
+  assert.equal(report.totalLashings, 1);
+});
+
+test("goods against the headboard are blocked forward until its capacity is used up", () => {
+  // Each 2000 kg unit passes 0.8·2000·0.981 − 0.225·2000·0.981 = 1128 daN on; the 5000 daN headboard takes four
+  const row = Array.from({ length: 6 }, (_, index) =>
+    placed({ item_id: `P${index}`, x: 64, y: index * 80, weight: 2000 })
+  );
+  const report = calculateSecuring(row, [], PIANALE);
+  const forward = report.entries.map(entry => entry.directions.forward);
+
+  assert.deepEqual(forward.map(direction => direction.blocking > 0), [true, true, true, true, false, false]);
+  assert.ok(forward.slice(0, 4).every(direction => direction.lashings === 0));
+  assert.ok(forward.slice(4).every(direction => direction.lashings > 0));
+});
+
+test("direct lashings count per direction", () => {
+  const report = calculateSecuring(
+    [placed({ item_id: "A", x: 64, y: 600, weight: 1000 })],
+    [],
+    PIANALE,
+    { ...DEFAULT_SECURING_OPTIONS, method: "direct" }
+  );
+  const { directions, lashings } = report.entries[0];
+
+  assert.equal(
+    lashings,
+    directions.forward.lashings + directions.rearward.lashings + directions.left.lashings + directions.right.lashings
+  );
+  assert.ok(report.secure);
+});
+
+test("a stack is secured as one unit", () => {
+  const report = calculateSecuring([
+    placed({ item_id: "BOTTOM", x: 64, y: 600, weight: 600 }),
+    placed({ item_id: "TOP", x: 64, y: 600, z: 150, weight: 400, layer: 2 })
+  ], [], PIANALE);
+
+  assert.equal(report.entries.length, 1);
+  assert.deepEqual(report.entries[0].itemIds, ["BOTTOM", "TOP"]);
+  assert.equal(report.entries[0].weight, 1000);
+});
@@ -0,0 +1,286 @@
+import type { PlacedItem, PlacedAirbag } from "@shared/schema";
+import type { TruckConfig } from "./truck-configs";
+
+export type SecuringDirection = "forward" | "rearward" | "left" | "right";
+export type LashingMethod = "top-over" | "direct";
+
+export interface SecuringOptions {
+  friction: number; // μ between goods and the load floor without mats
+  antiSlipMats: boolean; // mats raise μ to ANTI_SLIP_FRICTION
+  method: LashingMethod;
+  standardTension: number; // STF of a top-over lashing (daN)
+  lashingCapacity: number; // LC of a direct lashing (daN)
+  verticalAngle: number; // α, lashing to the load floor (degrees)
+  horizontalAngle: number; // β, direct lashing to the truck's length axis (degrees)
+}
+
+export const DEFAULT_SECURING_OPTIONS: SecuringOptions = {
+  friction: 0.3,
+  antiSlipMats: false,
+  method: "top-over",
+  standardTension: 400,
+  lashingCapacity: 2000,
+  verticalAngle: 60,
+  horizontalAngle: 30
+};
+
+export const ANTI_SLIP_FRICTION = 0.6;
+
+// EN 12195-1 road transport accelerations, in g
+const ACCELERATION: Record<SecuringDirection, number> = {
+  forward: 0.8,
+  rearward: 0.5,
+  left: 0.5,
+  right: 0.5
+};
+const VERTICAL_ACCELERATION = 1;
+
+// EN 12195-1: safety factor of top-over lashings, friction factor of direct lashing and blocking
+const TOP_OVER_SAFETY = { longitudinal: 1.25, transverse: 1.1 };
+const DIRECT_FRICTION_FACTOR = 0.75;
+
+const G = 9.81;
+// Goods closer than this (cm) count as touching
+const CONTACT_GAP = 2;
+
+export interface DirectionSecuring {
+  required: number; // inertia force to hold (daN)
+  friction: number; // held by friction (daN)
+  blocking: number; // passed on to a wall through neighbours (daN)
+  lashing: number; // held by lashings (daN)
+  lashings: number; // lashings this direction needs on its own
+  secure: boolean;
+}
+
+// One floor footprint with everything stacked on it
+export interface SecuringEntry {
+  itemIds: string[];
+  weight: number;
+  directions: Record<SecuringDirection, DirectionSecuring>;
+  lashings: number; // lashings of the chosen method for the whole unit
+  secure: boolean;
+}
+
+export interface SecuringReport {
+  options: SecuringOptions;
+  frictionUsed: number;
+  entries: SecuringEntry[];
+  totalLashings: number;
+  secure: boolean;
+}
+
+interface Unit {
+  itemIds: string[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  weight: number;
+}
+
+const DIRECTIONS: SecuringDirection[] = ["forward", "rearward", "left", "right"];
+
+/**
+ * Securing check per EN 12195-1. Each floor unit first relies on friction; what friction cannot
+ * hold goes to a wall when the unit is blocked through touching goods or airbags and the wall's
+ * blocking capacity holds, otherwise to lashings of the chosen method.
+ */
+export function calculateSecuring(
+  placedItems: PlacedItem[],
+  airbags: PlacedAirbag[],
+  truckConfig: TruckConfig,
+  options: SecuringOptions = DEFAULT_SECURING_OPTIONS
+): SecuringReport {
+  const friction = options.antiSlipMats ? Math.max(options.friction, ANTI_SLIP_FRICTION) : options.friction;
+  const units = getUnits(placedItems);
+  const spacers = airbags.map(airbag => ({ ...airbag, itemIds: [], weight: 0 }));
+
+  const blockedBy = Object.fromEntries(DIRECTIONS.map(direction => {
+    const capacity = getWallCapacity(direction, truckConfig);
+    const chain = capacity > 0 ? findBlocked(direction, units, spacers, truckConfig) : [];
+    // The wall takes the units nearest to it until its capacity is used up; the rest are lashed
+    const blocked = new Set<Unit>();
+    let load = 0;
+    for (const unit of chain) {
+      load += residualForce(unit, direction, friction);
+      if (load > capacity) break;
+      blocked.add(unit);
+    }
+    return [direction, blocked];
+  })) as Record<SecuringDirection, Set<Unit>>;
+
+  const entries = units.map(unit => {
+    const directions = Object.fromEntries(DIRECTIONS.map(direction =>
+      [direction, secureDirection(unit, direction, blockedBy[direction].has(unit), friction, options)]
+    )) as Record<SecuringDirection, DirectionSecuring>;
+
+    // A top-over lashing acts in every direction, a direct lashing only in its own
+    const counts = DIRECTIONS.map(direction => directions[direction].lashings);
+    const lashings = options.method === "top-over"
+      ? Math.max(...counts)
+      : counts.reduce((sum, count) => sum + count, 0);
+
+    // Apply the unit's lashing count to every direction it reaches
+    if (options.method === "top-over") {
+      for (const direction of DIRECTIONS) {
+        const entry = directions[direction];
+        entry.lashing = Number.isFinite(lashings) ? lashings * topOverForce(direction, friction, options) : 0;
+        entry.secure = entry.friction + entry.blocking + entry.lashing >= entry.required - 0.001;
+      }
+    }
+
+    return {
+      itemIds: unit.itemIds,
+      weight: unit.weight,
+      directions,
+      lashings,
+      secure: DIRECTIONS.every(direction => directions[direction].secure)
+    };
+  });
+
+  return {
+    options,
+    frictionUsed: friction,
+    entries,
+    totalLashings: entries.reduce((sum, entry) => sum + (Number.isFinite(entry.lashings) ? entry.lashings : 0), 0),
+    secure: entries.every(entry => entry.secure)
+  };
+}
+
+function secureDirection(
+  unit: Unit,
+  direction: SecuringDirection,
+  blocked: boolean,
+  friction: number,
+  options: SecuringOptions
+): DirectionSecuring {
+  const required = ACCELERATION[direction] * unit.weight * G / 10;
+  const effectiveFriction = options.method === "direct" || blocked ? directFriction(friction) : friction;
+  const held = Math.min(required, effectiveFriction * VERTICAL_ACCELERATION * unit.weight * G / 10);
+  const residual = required - held;
+
+  if (residual <= 0 || blocked) {
+    return { required, friction: held, blocking: blocked ? residual : 0, lashing: 0, lashings: 0, secure: true };
+  }
+
+  const perLashing = options.method === "top-over"
+    ? topOverForce(direction, friction, options)
+    : directForce(direction, friction, options);
+  const lashings = perLashing > 0 ? Math.ceil(residual / perLashing - 0.001) : Number.POSITIVE_INFINITY;
+  return {
+    required,
+    friction: held,
+    blocking: 0,
+    lashing: Number.isFinite(lashings) ? lashings * perLashing : 0,
+    lashings,
+    secure: Number.isFinite(lashings)
+  };
+}
+
+// Direct lashing and blocking only count on a share of the friction
+function directFriction(friction: number): number {
+  return DIRECT_FRICTION_FACTOR * friction;
+}
+
+// Extra friction one top-over lashing adds: its pre-tension presses the unit onto the floor on both sides
+function topOverForce(direction: SecuringDirection, friction: number, options: SecuringOptions): number {
+  const safety = direction === "forward" || direction === "rearward"
+    ? TOP_OVER_SAFETY.longitudinal
+    : TOP_OVER_SAFETY.transverse;
+  return 2 * friction * Math.sin(toRadians(options.verticalAngle)) * options.standardTension / safety;
+}
+
+// Restraint of one direct lashing pulling in the given direction
+function directForce(direction: SecuringDirection, friction: number, options: SecuringOptions): number {
+  const alpha = toRadians(options.verticalAngle);
+  const beta = toRadians(direction === "forward" || direction === "rearward"
+    ? options.horizontalAngle
+    : 90 - options.horizontalAngle);
+  return options.lashingCapacity *
+    (Math.cos(alpha) * Math.cos(beta) + directFriction(friction) * Math.sin(alpha));
+}
+
+function residualForce(unit: Unit, direction: SecuringDirection, friction: number): number {
+  const required = ACCELERATION[direction] * unit.weight * G / 10;
+  return Math.max(0, required - directFriction(friction) * VERTICAL_ACCELERATION * unit.weight * G / 10);
+}
+
+function getWallCapacity(direction: SecuringDirection, truckConfig: TruckConfig): number {
+  const { front, rear, sides } = truckConfig.blockingCapacity;
+  if (direction === "forward") return front;
+  if (direction === "rearward") return rear;
+  return sides;
+}
+
+// Stacks share a footprint, so items with the same floor position form one unit
+function getUnits(placedItems: PlacedItem[]): Unit[] {
+  const units = new Map<string, Unit>();
+  for (const item of placedItems) {
+    const key = `${item.x}_${item.y}`;
+    const unit = units.get(key);
+    if (unit) {
+      unit.itemIds.push(item.item_id);
+      unit.weight += item.weight;
+    } else {
+      units.set(key, {
+        itemIds: [item.item_id],
+        x: item.x,
+        y: item.y,
+        width: item.width,
+        height: item.height,
+        weight: item.weight
+      });
+    }
+  }
+  return Array.from(units.values());
+}
+
+// Units with an unbroken chain of touching goods or airbags to the wall in that direction,
+// nearest to the wall first
+function findBlocked(
+  direction: SecuringDirection,
+  units: Unit[],
+  spacers: Unit[],
+  truckConfig: TruckConfig
+): Unit[] {
+  const bodies = [...units, ...spacers];
+  const atWall = (body: Unit) => {
+    switch (direction) {
+      case "forward": return body.y <= CONTACT_GAP;
+      case "rearward": return body.y + body.height >= truckConfig.length - CONTACT_GAP;
+      case "left": return body.x <= CONTACT_GAP;
+      case "right": return body.x + body.width >= truckConfig.width - CONTACT_GAP;
+    }
+  };
+
+  const blocked = new Set<Unit>(bodies.filter(atWall));
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const body of bodies) {
+      if (blocked.has(body)) continue;
+      if (Array.from(blocked).some(other => leansOn(body, other, direction))) {
+        blocked.add(body);
+        grew = true;
+      }
+    }
+  }
+
+  return Array.from(blocked).filter(body => units.includes(body));
+}
+
+// Whether body touches other on the side facing the given direction
+function leansOn(body: Unit, other: Unit, direction: SecuringDirection): boolean {
+  const overlapAlong = body.y < other.y + other.height && other.y < body.y + body.height;
+  const overlapAcross = body.x < other.x + other.width && other.x < body.x + body.width;
+  switch (direction) {
+    case "forward": return overlapAcross && Math.abs(body.y - (other.y + other.height)) <= CONTACT_GAP;
+    case "rearward": return overlapAcross && Math.abs(other.y - (body.y + body.height)) <= CONTACT_GAP;
+    case "left": return overlapAlong && Math.abs(body.x - (other.x + other.width)) <= CONTACT_GAP;
+    case "right": return overlapAlong && Math.abs(other.x - (body.x + body.width)) <= CONTACT_GAP;
+  }
+}
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180;
+}
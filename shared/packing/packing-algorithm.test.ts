@@ -0,0 +1,103 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { PackingAlgorithm } from "./packing-algorithm";
+import { validatePlan } from "./plan-validator";
+import { item, optimize, optimizeInput } from "./test-fixtures";
+import { TRUCK_CONFIGURATIONS } from "./truck-configs";
+
+test("heavy pallets spill into the rear zone once the front zone is at its cap", () => {
+  const result = optimize([
+    item({ item_id: "HEAVY", type: "pallet", subtype: "europallet", number_of_items: 10, weight_kg: 24000 })
+  ]);
+
+  assert.equal(result.remainingItems.length, 0);
+  assert.ok(result.zoneWeights["Front Zone"] <= 14000);
+  assert.ok(result.zoneWeights["Rear Zone"] > 0);
+});
+
+test("heavy tanks spill into the rear zone once the front zone is at its cap", () => {
+  const result = optimize([
+    item({ item_id: "TANKS", type: "tank", subtype: "big", number_of_items: 12, weight_kg: 24000 })
+  ]);
+
+  assert.equal(result.remainingItems.length, 0);
+  assert.ok(result.zoneWeights["Front Zone"] <= 14000);
+  assert.ok(result.zoneWeights["Rear Zone"] > 0);
+});
+
+test("segregated dangerous goods are placed apart instead of left behind", () => {
+  const result = optimize([
+    item({ item_id: "OXIDISER", type: "pallet", subtype: "europallet", number_of_items: 20, weight_kg: 200, adr_class: "5.1" }),
+    item({ item_id: "FLAMMABLE", type: "pallet", subtype: "europallet", number_of_items: 2, weight_kg: 200, adr_class: "3" })
+  ]);
+
+  assert.equal(result.remainingItems.length, 0);
+  assert.deepEqual(result.adrViolations, []);
+});
+
+test("a full pianale of big tanks is packed staggered", () => {
+  const result = optimize([
+    item({ item_id: "TANKS", type: "tank", subtype: "big", number_of_items: 30, weight_kg: 6000 })
+  ]);
+
+  assert.equal(result.remainingItems.length, 0);
+});
+
+test("units held back by a zone weight cap are reported as a zone limit", () => {
+  const result = optimize([
+    item({ item_id: "PINNED", type: "pallet", subtype: "europallet", number_of_items: 8, weight_kg: 16000, pinned_zone: "Front Zone" })
+  ]);
+
+  assert.equal(result.remainingItems.length, 1);
+  assert.equal(result.remainingItems[0].reason, "zone");
+  assert.equal(result.limitingFactor, "zone");
+});
+
+test("dangerous goods that must be kept apart are not stacked on each other", () => {
+  const result = optimize([
+    item({ item_id: "FLAMMABLE", type: "EWC", subtype: "800x1200", number_of_items: 1, weight_kg: 300, adr_class: "3", stackable: true }),
+    item({ item_id: "OXIDISER", type: "EWC", subtype: "800x1200", number_of_items: 1, weight_kg: 200, adr_class: "5.1", stackable: true })
+  ]);
+
+  assert.equal(result.remainingItems.length, 0);
+  assert.ok(result.placedItems.every(placed => placed.z === 0));
+  assert.deepEqual(result.adrViolations, []);
+});
+
+test("a lock outside the load space is released", () => {
+  const items = [item({ item_id: "CRATE", type: "pallet", subtype: "europallet", number_of_items: 1, weight_kg: 300 })];
+  const [placed] = optimize(items).placedItems;
+  const result = PackingAlgorithm.optimize({ ...optimizeInput(items), lockedItems: [{ ...placed, x: -50, locked: true }] });
+
+  assert.deepEqual(result.releasedLocks, ["CRATE"]);
+  assert.ok(result.placedItems.every(unit => unit.x >= 0 && unit.y >= 0 && unit.z >= 0));
+});
+
+test("axle balancing never swaps pallets into the nested spots of staggered tanks", () => {
+  const cases = [
+    { truckType: "pianale", pallets: 8, palletWeight: 10000, tanks: 20 },
+    { truckType: "rimorchio", pallets: 12, palletWeight: 13000, tanks: 10 }
+  ];
+  for (const { truckType, pallets, palletWeight, tanks } of cases) {
+    const result = optimize([
+      item({
+        item_id: "HEAVY", type: "pallet", subtype: "custom", number_of_items: pallets, weight_kg: palletWeight,
+        length_cm: 100, width_cm: 100, height_cm: 100
+      }),
+      item({ item_id: "TANK", type: "tank", subtype: "big", number_of_items: tanks, weight_kg: 1000 })
+    ], truckType);
+
+    assert.deepEqual(validatePlan(result.placedItems, TRUCK_CONFIGURATIONS[truckType]), [], truckType);
+  }
+});
+
+test("goods with a side of zero or less are left behind for their dimensions", () => {
+  const result = optimize([
+    item({ item_id: "BENT", type: "pallet", subtype: "custom", number_of_items: 2, weight_kg: 200, length_cm: -100, width_cm: 100, height_cm: 100 }),
+    item({ item_id: "FLAT", type: "tank", subtype: "custom", number_of_items: 1, weight_kg: 100, width_cm: 0, height_cm: 100 })
+  ]);
+
+  assert.equal(result.placedItems.length, 0);
+  assert.equal(result.remainingItems.length, 3);
+  assert.ok(result.remainingItems.every(remaining => remaining.reason === "dimensions"));
+});
@@ -0,0 +1,1530 @@
+import type { Item, PlacedItem, PlacedAirbag, AirbagUsage, RotationMode, HandlingFlag } from "@shared/schema";
+import type { TruckConfig, TruckZone, ItemDimensions, TankDimensions } from "./truck-configs";
+import { handlingFlags } from "@shared/schema";
+import { ITEM_CONFIGURATIONS, AIRBAG_CONFIGURATIONS } from "./truck-configs";
+import { solvePalletPattern, type PalletSlot } from "./pallet-patterns";
+import { getTangentCentres, solveTankPattern, type Circle } from "./tank-patterns";
+import { FreeSpace, type FreeRect } from "./free-space";
+import { ADR_SEPARATION_CM, checkAdr, calculateExemptionPoints, getAdrRule, getFootprintDistance, type AdrViolation } from "./adr";
+import { calculateSecuring, type SecuringOptions, type SecuringReport } from "./load-securing";
+import { calculateAxleLoads, getItemLoads, isAxleOverloaded, type AxleLoads } from "./axle-loads";
+
+export interface OptimizationInput {
+  items: Item[];
+  truckType: string;
+  truckConfig: TruckConfig;
+  airbagInventory: AirbagUsage;
+  strategy?: PackingStrategy;
+  securing?: SecuringOptions;
+  adrEquipped?: boolean; // vehicle and driver may carry dangerous goods above the 1.1.3.6 exemption
+  lockedItems?: PlacedItem[]; // placements from an earlier plan that stay where they are
+}
+
+// Which floor orientation an item group is packed in; "auto" picks per item
+export type OrientationPreference = "auto" | "catalog" | "turned";
+
+// Knobs a search can turn between greedy passes. Keys are the item group keys from getGroupKeys.
+export interface PackingStrategy {
+  groupOrder?: string[];
+  orientations?: Record<string, OrientationPreference>;
+}
+
+// Which limit kept items off the truck: floor space, payload, the roof height, axle loads or zone rules
+export type LimitingFactor = "none" | "space" | "weight" | "height" | "axle" | "zone";
+
+// Why one unit stayed off the truck: no free floor left, payload, axle limits, taller than the
+// roof, dangerous goods that may not ride with or next to what is loaded, zone rules (a zone's
+// weight cap or accepted types, or a pinned zone this truck lacks), or the item has no known
+// length, width or height
+export type UnplacedReason = "space" | "weight" | "axle" | "height" | "adr" | "zone" | "dimensions";
+
+export interface UnplacedItem extends Item {
+  reason: UnplacedReason;
+  suggestion?: string; // filled in by explainUnplaced
+}
+
+export interface OptimizationOutput {
+  placedItems: PlacedItem[];
+  remainingItems: UnplacedItem[];
+  usedAirbags: AirbagUsage;
+  airbags: PlacedAirbag[];
+  totalWeight: number;
+  frontAxleLoad: number; // kingpin / front axle, tare included
+  rearAxleLoad: number; // rear axle group, tare included
+  tractorAxleLoads?: { steer: number; drive: number };
+  spaceUtilization: number; // volume, against length x width x height
+  floorUtilization: number;
+  weightUtilization: number;
+  maxLoadHeight: number;
+  usedLength: number; // loading length from the front wall to the rearmost item (cm)
+  loadBalance: string;
+  limitingFactor: LimitingFactor;
+  axleIssue?: string; // why the axle limits could not be met with the whole order on board
+  zoneWeights: Record<string, number>; // payload per zone name
+  centerOfGravity: CenterOfGravity | null; // of the payload, null when nothing is loaded
+  stabilityWarnings: string[];
+  securing: SecuringReport | null;
+  adrPoints: number; // ADR 1.1.3.6 points of the dangerous goods on board
+  adrViolations: AdrViolation[];
+  gaps: Gap[];
+  releasedLocks: string[]; // item ids of locks that no longer fit the order or the truck
+}
+
+// x across the truck, y from the front wall, z above the load floor (cm)
+export interface CenterOfGravity {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// An empty floor rectangle inside the loaded length, up to the height of the goods around it
+export interface Gap {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  depth: number;
+  filled: boolean; // an airbag from the inventory closes it
+}
+
+interface ItemPlacement {
+  x: number;
+  y: number;
+  z: number;
+  width: number;
+  height: number;
+  depth: number;
+  weight: number;
+  item: Item;
+  layer: number;
+  stackId?: string;
+  locked?: boolean;
+}
+
+// A floor footprint with everything stacked on it; indexes point into the placements
+interface LoadColumn {
+  indexes: number[];
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  weight: number;
+  stop: number;
+  circular: boolean; // stands on a round footprint, which staggered rows nest into
+  locked: boolean; // holds a locked placement
+}
+
+interface ItemStack {
+  items: Item[];
+  width: number;
+  height: number;
+  depth: number; // sum of the layer heights
+  layerDepths: number[];
+  rotation: RotationMode;
+}
+
+// Used when an item is flagged stackable but its catalog entry has no maxLayers
+const DEFAULT_MAX_LAYERS = 2;
+
+// Gaps thinner than this (cm) count as closed
+const MIN_GAP = 1;
+
+// Strip in front of the rear doors (cm) that goods flagged away_from_doors stay out of
+const DOOR_CLEARANCE = 120;
+
+const AIRBAG_TYPES: Array<keyof AirbagUsage> = ["pallet_stabilizer", "small", "standard", "3d"];
+
+export class PackingAlgorithm {
+  static optimize(input: OptimizationInput): OptimizationOutput {
+    const { items, truckConfig, airbagInventory, strategy, securing, adrEquipped = false, lockedItems = [] } = input;
+    
+    const result: OptimizationOutput = {
+      placedItems: [],
+      remainingItems: [],
+      usedAirbags: { standard: 0, small: 0, "3d": 0, pallet_stabilizer: 0 },
+      airbags: [],
+      totalWeight: 0,
+      frontAxleLoad: 0,
+      rearAxleLoad: 0,
+      spaceUtilization: 0,
+      floorUtilization: 0,
+      weightUtilization: 0,
+      maxLoadHeight: 0,
+      usedLength: 0,
+      loadBalance: "Optimal",
+      limitingFactor: "none",
+      zoneWeights: {},
+      centerOfGravity: null,
+      stabilityWarnings: [],
+      securing: null,
+      adrPoints: 0,
+      adrViolations: [],
+      gaps: [],
+      releasedLocks: []
+    };
+
+    // Group items by type for optimized packing strategies
+    const itemGroups = this.groupItemsByType(items);
+    const placements: ItemPlacement[] = [];
+    const space = new FreeSpace(truckConfig.width, truckConfig.length);
+
+    // Locked placements go in first and everything else is packed around them
+    this.placeLockedItems(lockedItems, itemGroups, placements, space, result, truckConfig);
+
+    // Payload is a hard limit: hold back what cannot be carried before placing anything
+    const overweight = this.holdBackForPayload(itemGroups, truckConfig.maxWeight - result.totalWeight);
+
+    // Pack each item type with specific strategies, in the order the strategy asks for
+    const groupOrder = strategy?.groupOrder ?? [];
+    const orderedGroups = Object.entries(itemGroups).sort(([a], [b]) => {
+      const rankA = groupOrder.includes(a) ? groupOrder.indexOf(a) : groupOrder.length;
+      const rankB = groupOrder.includes(b) ? groupOrder.indexOf(b) : groupOrder.length;
+      return rankA - rankB;
+    });
+
+    // Multi-drop: stops are packed last-delivered first from the front wall, and each stop's
+    // band is closed off before the next, so every stop unloads at the rear door untouched by others
+    const stops = this.getDeliveryStops(items);
+    let bandStart = 0;
+    stops.forEach((stop, index) => {
+      for (const [itemType, groupItems] of orderedGroups) {
+        const remainingFromGroup = this.packItemGroup(
+          itemType, 
+          groupItems.filter(item => this.getStopRank(item) === stop), 
+          truckConfig, 
+          placements, 
+          space,
+          result,
+          strategy?.orientations?.[itemType] ?? "auto",
+          bandStart
+        );
+        result.remainingItems.push(...remainingFromGroup.map(item => ({
+          ...item,
+          reason: this.getUnplacedReason(item, placements, space, result, truckConfig)
+        })));
+      }
+
+      if (index < stops.length - 1) {
+        // Locked goods stay where they are and do not close off the rest of the floor
+        const bandEnd = placements
+          .filter(placement => !placement.locked)
+          .reduce((max, placement) => Math.max(max, placement.y + placement.height), 0);
+        if (bandEnd > 0) space.occupy(0, 0, truckConfig.width, bandEnd);
+        bandStart = Math.max(bandStart, bandEnd);
+      }
+    });
+    result.remainingItems.push(...overweight.map(item => ({ ...item, reason: "weight" as const })));
+
+    // Axle limits: steer heavy goods lengthwise first, unload only when no legal layout exists
+    const axleHeldBack = this.balanceAxles(placements, result, truckConfig);
+    result.remainingItems.push(...axleHeldBack.map(item => ({ ...item, reason: "axle" as const })));
+    result.limitingFactor = this.getLimitingFactor(result.remainingItems);
+
+    // Find the voids between the goods and close them with airbags
+    result.gaps = this.findGaps(placements, truckConfig);
+    this.placeAirbags(result.gaps, placements, airbagInventory, result);
+
+    // Prove the goods stay put: friction, blocking and lashings per EN 12195-1
+    result.securing = calculateSecuring(result.placedItems, result.airbags, truckConfig, securing);
+
+    // Dangerous goods: placement keeps incompatible classes apart, the check reports what remains
+    const loadedItems = placements.map(placement => placement.item);
+    result.adrPoints = calculateExemptionPoints(loadedItems);
+    result.adrViolations = checkAdr(result.placedItems, loadedItems, adrEquipped);
+
+    // Calculate metrics
+    this.calculateMetrics(result, truckConfig);
+
+    return result;
+  }
+
+  static getGroupKeys(items: Item[]): string[] {
+    return Object.keys(this.groupItemsByType(items));
+  }
+
+  // Distinct stop ranks, last-delivered first
+  private static getDeliveryStops(items: Item[]): number[] {
+    const ranks = new Set(items.map(item => this.getStopRank(item)));
+    return Array.from(ranks).sort((a, b) => b - a);
+  }
+
+  // Goods without a stop travel to the end of the route
+  private static getStopRank(item: Item): number {
+    return item.delivery_stop ?? Number.POSITIVE_INFINITY;
+  }
+
+  private static groupItemsByType(items: Item[]): Record<string, Item[]> {
+    const groups: Record<string, Item[]> = {};
+    
+    items.forEach(item => {
+      // Goods with their own dimensions only share a group with goods of the same size
+      const size = item.length_cm || item.width_cm ? `:${item.length_cm ?? ""}x${item.width_cm ?? ""}` : "";
+      const key = `${item.type}_${item.subtype}${size}_${item.rotation}${item.pinned_zone ? `@${item.pinned_zone}` : ""}`;
+      if (!groups[key]) groups[key] = [];
+      
+      // Expand items based on quantity
+      for (let i = 0; i < item.number_of_items; i++) {
+        groups[key].push({
+          ...item,
+          number_of_items: 1,
+          weight_kg: item.weight_kg / item.number_of_items
+        });
+      }
+    });
+    
+    return groups;
+  }
+
+  /**
+   * Puts each lock on a unit of the same item that is still in the order, at the locked position.
+   * Locks whose item is gone, whose footprint no longer matches the item, that leave the truck,
+   * collide with an earlier lock or lost the layer below are released and the unit is packed like any other.
+   * Mutates the groups: locked units are taken out of them.
+   */
+  private static placeLockedItems(
+    lockedItems: PlacedItem[],
+    itemGroups: Record<string, Item[]>,
+    placements: ItemPlacement[],
+    space: FreeSpace,
+    result: OptimizationOutput,
+    truckConfig: TruckConfig
+  ): void {
+    // Bottom layers first, so a stack is rebuilt from the floor up
+    for (const lock of [...lockedItems].sort((a, b) => a.z - b.z)) {
+      const key = Object.keys(itemGroups).find(groupKey =>
+        itemGroups[groupKey].some(item => item.item_id === lock.item_id)
+      );
+      const unit = key ? itemGroups[key].find(item => item.item_id === lock.item_id)! : null;
+      const dimensions = unit ? this.getItemDimensions(unit) : null;
+      const matches = dimensions !== null &&
+        this.getOrientations(dimensions.width, dimensions.height, unit!.rotation)
+          .some(([w, h]) => Math.abs(w - lock.width) < 0.001 && Math.abs(h - lock.height) < 0.001);
+
+      if (
+        !unit || !matches ||
+        !this.canPlaceAt(
+          lock.x, lock.y, lock.z, lock.width, lock.height, dimensions!.depth, placements, truckConfig, this.isCircular(unit!)
+        ) ||
+        (lock.z > 0 && !placements.some(p => p.x === lock.x && p.y === lock.y && Math.abs(p.z + p.depth - lock.z) < 0.001)) ||
+        !this.fitsPayload(unit.weight_kg, result, truckConfig)
+      ) {
+        result.releasedLocks.push(lock.item_id);
+        continue;
+      }
+
+      itemGroups[key!] = itemGroups[key!].filter(item => item !== unit);
+      this.recordPlacement(
+        {
+          x: lock.x,
+          y: lock.y,
+          z: lock.z,
+          width: lock.width,
+          height: lock.height,
+          depth: dimensions!.depth,
+          weight: unit.weight_kg,
+          item: unit,
+          layer: lock.layer,
+          stackId: lock.stackId,
+          locked: true
+        },
+        placements,
+        space,
+        result,
+        truckConfig
+      );
+    }
+  }
+
+  // When the order is heavier than the payload left, the heaviest units are held back first so
+  // that as many units as possible stay on the truck. Mutates the groups and returns the held-back units.
+  private static holdBackForPayload(itemGroups: Record<string, Item[]>, capacity: number): Item[] {
+    const units = Object.values(itemGroups).flat();
+    let totalWeight = units.reduce((sum, item) => sum + item.weight_kg, 0);
+    if (totalWeight <= capacity) return [];
+
+    const heldBack = new Set<Item>();
+    for (const item of [...units].sort((a, b) => b.weight_kg - a.weight_kg)) {
+      if (totalWeight <= capacity) break;
+      heldBack.add(item);
+      totalWeight -= item.weight_kg;
+    }
+
+    for (const key of Object.keys(itemGroups)) {
+      itemGroups[key] = itemGroups[key].filter(item => !heldBack.has(item));
+    }
+    return Array.from(heldBack);
+  }
+
+  // The limit behind most of the unplaced units; ADR and dimension problems count as space
+  private static getLimitingFactor(remaining: UnplacedItem[]): LimitingFactor {
+    if (remaining.length === 0) return "none";
+
+    const counts = new Map<LimitingFactor, number>();
+    for (const item of remaining) {
+      const factor = item.reason === "weight" || item.reason === "axle" || item.reason === "height" ||
+        item.reason === "zone"
+        ? item.reason
+        : "space";
+      counts.set(factor, (counts.get(factor) ?? 0) + 1);
+    }
+    return Array.from(counts).reduce((best, entry) => (entry[1] > best[1] ? entry : best))[0];
+  }
+
+  /**
+   * Why the packers could not place a unit, judged against the load as it stands: the first
+   * check it fails in order of how hard it is to fix. Zone rules are to blame when a spot would be
+   * free without them; dangerous goods count as blocked by ADR when a banned class is on board,
+   * or when a spot would be free without the segregation distance.
+   */
+  private static getUnplacedReason(
+    item: Item,
+    placements: ItemPlacement[],
+    space: FreeSpace,
+    result: OptimizationOutput,
+    truckConfig: TruckConfig
+  ): UnplacedReason {
+    const dimensions = this.getItemDimensions(item);
+    if (!dimensions) return "dimensions";
+    if (dimensions.depth > truckConfig.height) return "height";
+    if (item.pinned_zone && !truckConfig.zones.some(zone => zone.name === item.pinned_zone)) return "zone";
+    if (!this.fitsPayload(item.weight_kg, result, truckConfig)) return "weight";
+
+    const orientations = this.getOrientations(dimensions.width, dimensions.height, item.rotation);
+    const freeWithout = (rule: "zone" | "adr") => {
+      // Without zone rules the plain corners are enough; with them, the zones are searched too
+      const regions = rule === "zone" ? [undefined] : this.getSearchRegions(item, item.weight_kg, placements, truckConfig);
+      return orientations.some(([w, h]) => regions.some(region => space.findPosition(w, h, (x, y) =>
+        this.canPlaceAt(x, y, 0, w, h, dimensions.depth, placements, truckConfig, this.isCircular(item)) &&
+        (rule === "zone" || this.fitsZone(item, item.weight_kg, x, y, w, h, placements, truckConfig)) &&
+        (rule === "adr" || this.fitsAdr(item, x, y, w, h, placements)) &&
+        this.fitsDoorClearance(item, y, h, truckConfig),
+        region
+      ) !== null));
+    };
+    if (truckConfig.zones.length > 0 && freeWithout("zone")) return "zone";
+    if (!item.adr_class) return "space";
+
+    const banned = placements.some(placement =>
+      placement.item.adr_class && getAdrRule(item.adr_class!, placement.item.adr_class) === "forbidden"
+    );
+    return banned || freeWithout("adr") ? "adr" : "space";
+  }
+
+  private static fitsPayload(weight: number, result: OptimizationOutput, truckConfig: TruckConfig): boolean {
+    // Small tolerance: per-unit weights come from dividing the order line weight
+    return result.totalWeight + weight <= truckConfig.maxWeight + 0.001;
+  }
+
+  /**
+   * Brings the axle loads within their limits in three steps: swap equal footprints so heavier
+   * columns move towards the underloaded end (never across delivery stops), then slide the whole
+   * load towards the door when the front is overloaded and there is room behind it, and only then
+   * unload top items from the overloaded end. Returns the unloaded items.
+   */
+  private static balanceAxles(
+    placements: ItemPlacement[],
+    result: OptimizationOutput,
+    truckConfig: TruckConfig
+  ): Item[] {
+    const loadsOf = () => calculateAxleLoads(getItemLoads(result.placedItems), truckConfig);
+    if (!isAxleOverloaded(loadsOf(), truckConfig)) return [];
+
+    // 1. Swap columns of the same footprint while that lowers the overload. Round and square
+    // footprints never trade places: a tank's bounding square may reach into its neighbours.
+    let overload = this.getAxleOverload(loadsOf(), truckConfig);
+    while (overload > 0) {
+      const columns = this.getLoadColumns(placements);
+      let best: { a: LoadColumn; b: LoadColumn; overload: number } | null = null;
+
+      for (let i = 0; i < columns.length; i++) {
+        for (let j = i + 1; j < columns.length; j++) {
+          const a = columns[i];
+          const b = columns[j];
+          if (a.locked || b.locked || a.stop !== b.stop || a.weight === b.weight || a.circular !== b.circular ||
+            Math.abs(a.width - b.width) > 0.001 || Math.abs(a.height - b.height) > 0.001) continue;
+
+          this.swapColumns(a, b, placements, result, truckConfig);
+          const candidate = this.respectsPlacementRules(placements, truckConfig)
+            ? this.getAxleOverload(loadsOf(), truckConfig)
+            : Number.POSITIVE_INFINITY;
+          this.swapColumns(a, b, placements, result, truckConfig);
+          if (candidate < (best?.overload ?? overload) - 0.001) best = { a, b, overload: candidate };
+        }
+      }
+
+      if (!best) break;
+      this.swapColumns(best.a, best.b, placements, result, truckConfig);
+      overload = best.overload;
+    }
+
+    // 2. A front overload can be relieved by leaving room at the front wall instead of the door,
+    // unless locked goods hold the load where it is
+    if (overload > 0 && this.isFrontOverloaded(loadsOf(), truckConfig) && !placements.some(p => p.locked)) {
+      const freeTail = truckConfig.length - placements.reduce((max, p) => Math.max(max, p.y + p.height), 0);
+      let bestShift = 0;
+      for (let shift = 10; shift <= freeTail; shift = Math.min(shift + 10, freeTail)) {
+        this.shiftLoad(shift, placements, result, truckConfig);
+        const candidate = this.respectsPlacementRules(placements, truckConfig)
+          ? this.getAxleOverload(loadsOf(), truckConfig)
+          : Number.POSITIVE_INFINITY;
+        this.shiftLoad(-shift, placements, result, truckConfig);
+        if (candidate < overload - 0.001) {
+          overload = candidate;
+          bestShift = shift;
+        }
+        if (overload <= 0 || shift === freeTail) break;
+      }
+      this.shiftLoad(bestShift, placements, result, truckConfig);
+    }
+
+    // 3. No legal layout holds the whole order: unload the top items that relieve the axles most
+    const heldBack: Item[] = [];
+    const startingOverload = this.getAxleOverload(loadsOf(), truckConfig);
+    const overloaded = this.describeOverloadedAxles(loadsOf(), truckConfig);
+    while (overload > 0) {
+      const tops = this.getLoadColumns(placements)
+        .map(column => column.indexes.reduce((top, index) => (placements[index].z > placements[top].z ? index : top)))
+        .filter(index => !placements[index].locked);
+      let best: { index: number; overload: number } | null = null;
+      for (const index of tops) {
+        const [placed] = result.placedItems.splice(index, 1);
+        const candidate = this.getAxleOverload(loadsOf(), truckConfig);
+        result.placedItems.splice(index, 0, placed);
+        if (!best || candidate < best.overload) best = { index, overload: candidate };
+      }
+      if (!best || best.overload >= overload) break;
+
+      const [removed] = placements.splice(best.index, 1);
+      result.placedItems.splice(best.index, 1);
+      result.totalWeight -= removed.weight;
+      heldBack.push(removed.item);
+      overload = best.overload;
+    }
+
+    if (heldBack.length > 0 || overload > 0) {
+      const unloaded = heldBack.reduce((sum, item) => sum + item.weight_kg, 0);
+      result.axleIssue = `${overloaded} over the limit by ${Math.round(startingOverload)} kg ` +
+        "even with the goods rearranged lengthwise" +
+        (heldBack.length > 0 ? `; ${heldBack.length} item(s) (${Math.round(unloaded)} kg) left off the truck` : "") +
+        (overload > 0 ? `; still ${Math.round(overload)} kg over` : "") + ".";
+    }
+    return heldBack;
+  }
+
+  // Total kg above the limit over all axles
+  private static getAxleOverload(loads: AxleLoads, truckConfig: TruckConfig): number {
+    const tractor = truckConfig.axles.tractor;
+    let overload = Math.max(0, loads.front - truckConfig.frontAxleLimit) +
+      Math.max(0, loads.rear - truckConfig.rearAxleLimit);
+    if (tractor && loads.tractor) {
+      overload += Math.max(0, loads.tractor.steer - tractor.steerLimit) +
+        Math.max(0, loads.tractor.drive - tractor.driveLimit);
+    }
+    return overload;
+  }
+
+  // The tractor axles carry the kingpin load, so they count as the front end
+  private static isFrontOverloaded(loads: AxleLoads, truckConfig: TruckConfig): boolean {
+    const tractor = truckConfig.axles.tractor;
+    return loads.front > truckConfig.frontAxleLimit ||
+      (tractor !== undefined && loads.tractor !== undefined &&
+        (loads.tractor.steer > tractor.steerLimit || loads.tractor.drive > tractor.driveLimit));
+  }
+
+  private static describeOverloadedAxles(loads: AxleLoads, truckConfig: TruckConfig): string {
+    const tractor = truckConfig.axles.tractor;
+    const names = [
+      tractor && loads.tractor && loads.tractor.steer > tractor.steerLimit ? "tractor steer axle" : null,
+      tractor && loads.tractor && loads.tractor.drive > tractor.driveLimit ? "tractor drive axle" : null,
+      loads.front > truckConfig.frontAxleLimit ? (tractor ? "kingpin" : "front axle") : null,
+      loads.rear > truckConfig.rearAxleLimit ? (tractor ? "trailer axles" : "rear axle") : null
+    ].filter(Boolean);
+    const text = names.join(" and ");
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  private static getLoadColumns(placements: ItemPlacement[]): LoadColumn[] {
+    const columns = new Map<string, LoadColumn>();
+    placements.forEach((placement, index) => {
+      const key = `${placement.x}_${placement.y}`;
+      const column = columns.get(key);
+      if (column) {
+        column.indexes.push(index);
+        column.weight += placement.weight;
+        column.locked = column.locked || !!placement.locked;
+      } else {
+        columns.set(key, {
+          indexes: [index],
+          x: placement.x,
+          y: placement.y,
+          width: placement.width,
+          height: placement.height,
+          weight: placement.weight,
+          stop: this.getStopRank(placement.item),
+          circular: this.isCircular(placement.item),
+          locked: !!placement.locked
+        });
+      }
+    });
+    return Array.from(columns.values());
+  }
+
+  // Columns of the same footprint trade places; the column objects keep their old coordinates
+  private static swapColumns(
+    a: LoadColumn,
+    b: LoadColumn,
+    placements: ItemPlacement[],
+    result: OptimizationOutput,
+    truckConfig: TruckConfig
+  ): void {
+    const move = (indexes: number[], x: number, y: number) => indexes.forEach(index => {
+      const placed = result.placedItems[index];
+      placements[index].x = placed.x = x;
+      placements[index].y = placed.y = y;
+      placed.zone = this.getZoneAt(x, y, placed.width, placed.height, truckConfig)?.name ?? "None";
+    });
+    const aAtA = placements[a.indexes[0]].x === a.x && placements[a.indexes[0]].y === a.y;
+    move(a.indexes, aAtA ? b.x : a.x, aAtA ? b.y : a.y);
+    move(b.indexes, aAtA ? a.x : b.x, aAtA ? a.y : b.y);
+  }
+
+  private static shiftLoad(
+    shift: number,
+    placements: ItemPlacement[],
+    result: OptimizationOutput,
+    truckConfig: TruckConfig
+  ): void {
+    placements.forEach((placement, index) => {
+      const placed = result.placedItems[index];
+      placement.y += shift;
+      placed.y = placement.y;
+      placed.zone = this.getZoneAt(placement.x, placement.y, placement.width, placement.height, truckConfig)?.name ?? "None";
+    });
+  }
+
+  private static packItemGroup(
+    itemType: string, 
+    items: Item[], 
+    truckConfig: TruckConfig, 
+    placements: ItemPlacement[], 
+    space: FreeSpace,
+    result: OptimizationOutput,
+    orientation: OrientationPreference,
+    bandStart: number // front edge of the current delivery stop's band
+  ): Item[] {
+    if (items.length === 0) return [];
+
+    const sampleItem = items[0];
+    
+    // The pattern solver turns pallets freely over the whole floor, so pallets restricted in
+    // rotation or zone go through the generic packer
+    if (
+      sampleItem.type === "pallet" && sampleItem.rotation === "allowed" && orientation === "auto" &&
+      !this.isStackable(sampleItem) && this.getAllowedZones(sampleItem, truckConfig) === null
+    ) {
+      return this.packPallets(items, truckConfig, placements, space, result);
+    } else if (sampleItem.type === "tank") {
+      return this.packTanks(items, truckConfig, placements, space, result, bandStart);
+    } else if (sampleItem.type === "EWC") {
+      return this.packEWCs(items, truckConfig, placements, space, result, orientation);
+    } else {
+      // Generic packing for other types
+      return this.packGenericItems(items, truckConfig, placements, space, result, orientation);
+    }
+  }
+
+  private static packPallets(
+    items: Item[], 
+    truckConfig: TruckConfig, 
+    placements: ItemPlacement[], 
+    space: FreeSpace,
+    result: OptimizationOutput
+  ): Item[] {
+    const dimensions = this.getItemDimensions(items[0]);
+    if (!dimensions) return items;
+
+    // Lay the group out with the best long/short row mix in the free rectangle that takes
+    // the most pallets, closest to the front wall on ties
+    let best: { rect: FreeRect; slots: PalletSlot[] } | null = null;
+    for (const rect of space.rects.sort((a, b) => a.y - b.y || a.x - b.x)) {
+      const pattern = solvePalletPattern(items.length, dimensions, { length: rect.height, width: rect.width });
+      if (!best || pattern.slots.length > best.slots.length) {
+        best = { rect, slots: pattern.slots };
+      }
+      if (best.slots.length === items.length) break;
+    }
+
+    const remaining: Item[] = [];
+    const slots = best ? best.slots : [];
+    let slotIndex = 0;
+
+    for (const item of items) {
+      const depth = this.getItemDimensions(item)!.depth;
+      let placed = false;
+
+      if (!this.fitsPayload(item.weight_kg, result, truckConfig)) {
+        remaining.push(item);
+        continue;
+      }
+
+      while (!placed && slotIndex < slots.length) {
+        const slot = slots[slotIndex];
+        const x = best!.rect.x + slot.x;
+        const y = best!.rect.y + slot.y;
+        if (
+          this.canPlaceAt(x, y, 0, slot.width, slot.height, depth, placements, truckConfig) &&
+          this.fitsZone(item, item.weight_kg, x, y, slot.width, slot.height, placements, truckConfig) &&
+          this.fitsAdr(item, x, y, slot.width, slot.height, placements) &&
+          this.fitsDoorClearance(item, y, slot.height, truckConfig)
+        ) {
+          this.recordPlacement(
+            { x, y, z: 0, width: slot.width, height: slot.height, depth, weight: item.weight_kg, item, layer: 1 },
+            placements,
+            space,
+            result,
+            truckConfig
+          );
+          placed = true;
+        }
+        slotIndex++;
+      }
+
+      // Pallets beyond the pattern go into whatever pockets are left, either way round
+      if (!placed) {
+        const position = this.findFloorPosition(
+          this.getOrientations(dimensions.width, dimensions.height, item.rotation),
+          depth,
+          item,
+          item.weight_kg,
+          placements,
+          space,
+          truckConfig
+        );
+        if (position) {
+          this.recordPlacement(
+            { ...position, z: 0, depth, weight: item.weight_kg, item, layer: 1 },
+            placements,
+            space,
+            result,
+            truckConfig
+          );
+          placed = true;
+        }
+      }
+
+      if (!placed) remaining.push(item);
+    }
+
+    return remaining;
+  }
+
+  /**
+   * Tanks stand on round footprints. Pockets in the part of the floor already loaded are filled
+   * first, so small tanks nest between big ones and beside pallets; the rest go in whichever of the
+   * square and hex lattices holds the most in a free rectangle, and leftovers take any position
+   * touching what is loaded.
+   */
+  private static packTanks(
+    items: Item[], 
+    truckConfig: TruckConfig, 
+    placements: ItemPlacement[], 
+    space: FreeSpace,
+    result: OptimizationOutput,
+    bandStart: number
+  ): Item[] {
+    const dimensions = this.getItemDimensions(items[0]);
+    if (!dimensions) return items;
+    const { width: diameter, depth } = dimensions;
+    const regions = this.getTankRegions(items[0], placements, truckConfig, bandStart);
+
+    const tryPlace = (item: Item, x: number, y: number): boolean => {
+      if (
+        y < bandStart - 0.001 ||
+        !this.fitsPayload(item.weight_kg, result, truckConfig) ||
+        !this.canPlaceAt(x, y, 0, diameter, diameter, depth, placements, truckConfig, true) ||
+        !this.fitsZone(item, item.weight_kg, x, y, diameter, diameter, placements, truckConfig) ||
+        !this.fitsAdr(item, x, y, diameter, diameter, placements) ||
+        !this.fitsDoorClearance(item, y, diameter, truckConfig)
+      ) {
+        return false;
+      }
+      this.recordPlacement(
+        { x, y, z: 0, width: diameter, height: diameter, depth, weight: item.weight_kg, item, layer: 1 },
+        placements,
+        space,
+        result,
+        truckConfig
+      );
+      return true;
+    };
+    // Units of one order line are alike: once one finds no position, the next only can after a placement
+    const failedAt = new Map<string, number>();
+    const placeTouching = (item: Item, maxY: number) => {
+      if (failedAt.get(`${item.item_id}@${maxY}`) === placements.length) return false;
+      const placed = regions.some(region => {
+        const area = { ...region, length: Math.min(region.y + region.height, maxY) - region.y };
+        return area.length >= diameter && this.getTankCandidates(diameter, placements, area)
+          .some(({ x, y }) => tryPlace(item, x, y));
+      });
+      if (!placed) failedAt.set(`${item.item_id}@${maxY}`, placements.length);
+      return placed;
+    };
+
+    // 1. Pockets within the loaded length
+    const loadedLength = placements.reduce((max, p) => Math.max(max, p.y + p.height), 0);
+    let pending = items.filter(item => !placeTouching(item, loadedLength));
+
+    // 2. The lattice holding the most tanks, in the free rectangle that takes the most
+    let best: { x: number; y: number; slots: Array<{ x: number; y: number }> } | null = null;
+    const latticeSpace = this.getSegregatedSpace(items[0], placements, space) ?? space;
+    for (const free of latticeSpace.rects.sort((a, b) => a.y - b.y || a.x - b.x)) {
+      for (const region of regions) {
+        const rect = this.intersectRects(free, region);
+        if (!rect) continue;
+        const pattern = solveTankPattern(pending.length, diameter, { length: rect.height, width: rect.width });
+        if (!best || pattern.slots.length > best.slots.length) best = { x: rect.x, y: rect.y, slots: pattern.slots };
+      }
+      if (best && best.slots.length === pending.length) break;
+    }
+    const origin = best;
+    const slots = origin ? origin.slots.map(slot => ({ x: origin.x + slot.x, y: origin.y + slot.y })) : [];
+    pending = pending.filter(item => {
+      const index = slots.findIndex(slot => tryPlace(item, slot.x, slot.y));
+      if (index === -1) return true;
+      slots.splice(0, index + 1);
+      return false;
+    });
+
+    // 3. Anywhere a tank touches the load or the walls
+    return pending.filter(item => !placeTouching(item, truckConfig.length));
+  }
+
+  // Floor rectangles a tank may search (see getSearchRegions), behind the sealed bands
+  private static getTankRegions(
+    item: Item,
+    placements: ItemPlacement[],
+    truckConfig: TruckConfig,
+    bandStart: number
+  ): FreeRect[] {
+    const floor: FreeRect = { x: 0, y: bandStart, width: truckConfig.width, height: truckConfig.length - bandStart };
+    return this.getSearchRegions(item, item.weight_kg, placements, truckConfig)
+      .map(region => this.intersectRects(region ?? floor, floor))
+      .filter((region): region is FreeRect => region !== null);
+  }
+
+  // Bounding-square positions of a tank touching two placed goods or walls, nearest the front wall first
+  private static getTankCandidates(
+    diameter: number,
+    placements: ItemPlacement[],
+    area: { x: number; y: number; width: number; length: number }
+  ): Array<{ x: number; y: number }> {
+    const floor = placements.filter(p => p.layer === 1);
+    const circles: Circle[] = floor
+      .filter(p => this.isCircular(p.item))
+      .map(p => ({ cx: p.x + p.width / 2, cy: p.y + p.height / 2, r: Math.min(p.width, p.height) / 2 }));
+    const rects = floor.filter(p => !this.isCircular(p.item));
+    const r = diameter / 2;
+
+    return getTangentCentres(r, circles, rects, area)
+      .sort((a, b) => a.cy - b.cy || a.cx - b.cx)
+      .map(centre => ({ x: centre.cx - r, y: centre.cy - r }));
+  }
+
+  private static intersectRects(a: FreeRect, b: FreeRect): FreeRect | null {
+    const x = Math.max(a.x, b.x);
+    const y = Math.max(a.y, b.y);
+    const width = Math.min(a.x + a.width, b.x + b.width) - x;
+    const height = Math.min(a.y + a.height, b.y + b.height) - y;
+    return width > 0 && height > 0 ? { x, y, width, height } : null;
+  }
+
+  private static packEWCs(
+    items: Item[], 
+    truckConfig: TruckConfig, 
+    placements: ItemPlacement[], 
+    space: FreeSpace,
+    result: OptimizationOutput,
+    orientation: OrientationPreference
+  ): Item[] {
+    // EWCs are stackable (maxLayers in the catalog); the generic packer builds the stacks
+    return this.packGenericItems(items, truckConfig, placements, space, result, orientation);
+  }
+
+  private static packGenericItems(
+    items: Item[], 
+    truckConfig: TruckConfig, 
+    placements: ItemPlacement[], 
+    space: FreeSpace,
+    result: OptimizationOutput,
+    orientation: OrientationPreference = "auto"
+  ): Item[] {
+    const remaining: Item[] = [];
+    
+    // Stackable items are packed as whole stacks, each placed by its footprint
+
+    const placeable = items.filter(item => {
+      const dimensions = this.getItemDimensions(item);
+      if (!dimensions || dimensions.depth > truckConfig.height) {
+        remaining.push(item);
+        return false;
+      }
+      return true;
+    });
+
+    this.buildStacks(placeable, truckConfig).forEach(stack => {
+      const stackWeight = stack.items.reduce((sum, item) => sum + item.weight_kg, 0);
+      if (!this.fitsPayload(stackWeight, result, truckConfig)) {
+        remaining.push(...stack.items);
+        return;
+      }
+
+      const position = this.findFloorPosition(
+        this.getOrientations(stack.width, stack.height, stack.rotation, orientation),
+        stack.depth,
+        stack.items[0],
+        stackWeight,
+        placements,
+        space,
+        truckConfig
+      );
+      if (position) {
+        this.recordStack(stack, position, placements, space, result, truckConfig);
+      } else {
+        remaining.push(...stack.items);
+      }
+    });
+
+    return remaining;
+  }
+
+  // Floor footprints (width across, height along the truck) an item may take. A preference
+  // narrows the choice when the item's rotation mode allows it. Goods are only ever turned about
+  // the vertical axis, so keep-upright goods stay the right way up.
+  private static getOrientations(
+    width: number,
+    height: number,
+    rotation: RotationMode,
+    preference: OrientationPreference = "auto"
+  ): Array<[number, number]> {
+    if (width === height || rotation === "forbidden") return [[width, height]];
+    if (rotation === "lengthwise") return [[Math.min(width, height), Math.max(width, height)]];
+    if (preference === "catalog") return [[width, height]];
+    if (preference === "turned") return [[height, width]];
+    return [[width, height], [height, width]];
+  }
+
+  // Free floor position nearest the front wall over the given orientations and the zones the
+  // item may use. `weight` is what lands on the footprint. Returns the footprint as placed.
+  private static findFloorPosition(
+    orientations: Array<[number, number]>,
+    depth: number,
+    item: Item,
+    weight: number,
+    placements: ItemPlacement[],
+    space: FreeSpace,
+    truckConfig: TruckConfig
+  ): { x: number; y: number; width: number; height: number } | null {
+    let best: { x: number; y: number; width: number; height: number } | null = null;
+    const regions = this.getSearchRegions(item, weight, placements, truckConfig);
+    const segregated = this.getSegregatedSpace(item, placements, space);
+    const spaces = segregated ? [space, segregated] : [space];
+
+    for (const [w, h] of orientations) {
+      for (const searched of spaces) {
+        for (const region of regions) {
+          const position = searched.findPosition(w, h, (x, y) =>
+            this.canPlaceAt(x, y, 0, w, h, depth, placements, truckConfig) &&
+            this.fitsZone(item, weight, x, y, w, h, placements, truckConfig) &&
+            this.fitsAdr(item, x, y, w, h, placements) &&
+            this.fitsDoorClearance(item, y, h, truckConfig),
+            region
+          );
+          if (position && (!best || position.y < best.y || (position.y === best.y && position.x < best.x))) {
+            best = { ...position, width: w, height: h };
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Floor regions to search for a free position. Free-space search only tries the corners of free
+   * rectangles, which all sit in a weight-capped zone once goods fill it from the front, so zones
+   * with room left are searched on their own as well. Items restricted to zones search only those.
+   */
+  private static getSearchRegions(
+    item: Item,
+    weight: number,
+    placements: ItemPlacement[],
+    truckConfig: TruckConfig
+  ): Array<FreeRect | undefined> {
+    const zones = this.getAllowedZones(item, truckConfig);
+    if (zones) return zones.map(zone => this.getZoneFloorRect(zone));
+
+    const withRoom = truckConfig.zones.filter(zone =>
+      zone.maxWeight !== undefined && this.getZoneLoad(zone, placements, truckConfig) + weight <= zone.maxWeight + 0.001
+    );
+    return [undefined, ...withRoom.map(zone => this.getZoneFloorRect(zone))];
+  }
+
+  /**
+   * The free floor with every placed item the given one must keep apart from grown by the
+   * segregation distance, or null when there is none on board. Its corners are positions far
+   * enough away, which the corners of the plain free space next to the goods never are.
+   */
+  private static getSegregatedSpace(item: Item, placements: ItemPlacement[], space: FreeSpace): FreeSpace | null {
+    if (!item.adr_class) return null;
+    const margin = ADR_SEPARATION_CM;
+    const grown = placements
+      .filter(p => p.item.adr_class && getAdrRule(item.adr_class!, p.item.adr_class) === "separate")
+      .map(p => ({ x: p.x - margin, y: p.y - margin, width: p.width + 2 * margin, height: p.height + 2 * margin }));
+    return grown.length > 0 ? space.without(grown) : null;
+  }
+
+  // Zones an item may go in, or null when it may go anywhere on the floor
+  private static getAllowedZones(item: Item, truckConfig: TruckConfig): TruckZone[] | null {
+    if (item.pinned_zone) return truckConfig.zones.filter(zone => zone.name === item.pinned_zone);
+    const allowed = truckConfig.zones.filter(zone => !zone.allowedTypes || zone.allowedTypes.includes(item.type));
+    return allowed.length === truckConfig.zones.length ? null : allowed;
+  }
+
+  // Zone rectangles run along the truck; floor rectangles have x across it
+  private static getZoneFloorRect(zone: TruckZone): FreeRect {
+    return { x: zone.y, y: zone.x, width: zone.height, height: zone.width };
+  }
+
+  // The zone holding the footprint's centre decides pinning, allowed types and the weight limit
+  private static fitsZone(
+    item: Item,
+    weight: number,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    placements: ItemPlacement[],
+    truckConfig: TruckConfig
+  ): boolean {
+    const zone = this.getZoneAt(x, y, width, height, truckConfig);
+    if (item.pinned_zone && zone?.name !== item.pinned_zone) return false;
+    if (!zone) return true;
+    if (zone.allowedTypes && !zone.allowedTypes.includes(item.type)) return false;
+    if (zone.maxWeight === undefined) return true;
+    return this.getZoneLoad(zone, placements, truckConfig) + weight <= zone.maxWeight + 0.001;
+  }
+
+  private static getZoneLoad(zone: TruckZone, placements: ItemPlacement[], truckConfig: TruckConfig): number {
+    return placements
+      .filter(p => this.getZoneAt(p.x, p.y, p.width, p.height, truckConfig) === zone)
+      .reduce((sum, p) => sum + p.weight, 0);
+  }
+
+  // Dangerous goods may not share the truck with banned classes nor stand too close to segregated ones
+  private static fitsAdr(
+    item: Item,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    placements: ItemPlacement[]
+  ): boolean {
+    if (!item.adr_class) return true;
+    return placements.every(placement => {
+      if (!placement.item.adr_class) return true;
+      const rule = getAdrRule(item.adr_class!, placement.item.adr_class);
+      if (rule === "forbidden") return false;
+      return rule !== "separate" || getFootprintDistance({ x, y, width, height }, placement) >= ADR_SEPARATION_CM;
+    });
+  }
+
+  private static fitsDoorClearance(item: Item, y: number, height: number, truckConfig: TruckConfig): boolean {
+    return !item.away_from_doors || y + height <= truckConfig.length - DOOR_CLEARANCE;
+  }
+
+  // Whole-plan check used when the axle pass moves goods that are already placed
+  private static respectsPlacementRules(placements: ItemPlacement[], truckConfig: TruckConfig): boolean {
+    if (!placements.every(p => this.fitsDoorClearance(p.item, p.y, p.height, truckConfig))) return false;
+
+    const segregated = placements.every((placement, index) =>
+      this.fitsAdr(placement.item, placement.x, placement.y, placement.width, placement.height, placements.slice(index + 1))
+    );
+    if (!segregated) return false;
+
+    const zoneWeights = new Map<TruckZone, number>();
+    for (const placement of placements) {
+      const zone = this.getZoneAt(placement.x, placement.y, placement.width, placement.height, truckConfig);
+      if (placement.item.pinned_zone && zone?.name !== placement.item.pinned_zone) return false;
+      if (!zone) continue;
+      if (zone.allowedTypes && !zone.allowedTypes.includes(placement.item.type)) return false;
+      zoneWeights.set(zone, (zoneWeights.get(zone) ?? 0) + placement.weight);
+    }
+    return Array.from(zoneWeights).every(([zone, weight]) =>
+      zone.maxWeight === undefined || weight <= zone.maxWeight + 0.001
+    );
+  }
+
+  private static isStackable(item: Item): boolean {
+    return item.stackable || this.getMaxLayers(item) > 1;
+  }
+
+  static getMaxLayers(item: Pick<Item, "type" | "subtype" | "stackable">): number {
+    const typeConfig = ITEM_CONFIGURATIONS[item.type as keyof typeof ITEM_CONFIGURATIONS];
+    const subtypeConfig = typeConfig?.[item.subtype as keyof typeof typeConfig] as ItemDimensions | undefined;
+    if (subtypeConfig?.stackable && subtypeConfig.maxLayers) return subtypeConfig.maxLayers;
+    return item.stackable ? DEFAULT_MAX_LAYERS : 1;
+  }
+
+  // Weight an item may carry on top of it (kg)
+  private static getTopLoadLimit(item: Item): number {
+    if (item.fragile || item.no_stack) return 0;
+    return item.max_top_load_kg ?? Number.POSITIVE_INFINITY;
+  }
+
+  // Whether every layer of the stack still carries what is above it once the item goes on top
+  private static canCarry(stack: ItemStack, item: Item): boolean {
+    let above = item.weight_kg;
+    for (let index = stack.items.length - 1; index >= 0; index--) {
+      if (above > this.getTopLoadLimit(stack.items[index]) + 0.001) return false;
+      above += stack.items[index].weight_kg;
+    }
+    return true;
+  }
+
+  // Groups items with the same footprint into stacks of at most maxLayers that clear the roof.
+  // Heaviest items form the bottom layer and are spread round-robin so stacks weigh about the same;
+  // goods that carry no top load come last so they end up on top.
+  private static buildStacks(items: Item[], truckConfig: TruckConfig): ItemStack[] {
+    const stacks: ItemStack[] = [];
+    const byFootprint: Record<string, Item[]> = {};
+
+    items.forEach(item => {
+      const dimensions = this.getItemDimensions(item)!;
+      if (!this.isStackable(item)) {
+        stacks.push(this.createStack(item, dimensions));
+        return;
+      }
+      // Door clearance and ADR segregation are checked on the bottom item, so only like goods share a stack
+      const key = `${dimensions.width}x${dimensions.height}_${item.rotation}_${item.away_from_doors}_${item.adr_class ?? ""}`;
+      if (!byFootprint[key]) byFootprint[key] = [];
+      byFootprint[key].push(item);
+    });
+
+    for (const group of Object.values(byFootprint)) {
+      const sorted = [...group].sort((a, b) =>
+        Number(this.getTopLoadLimit(a) === 0) - Number(this.getTopLoadLimit(b) === 0) ||
+        b.weight_kg - a.weight_kg
+      );
+      const sample = this.getItemDimensions(sorted[0])!;
+      const layersPerStack = Math.max(1, Math.min(
+        this.getMaxLayers(sorted[0]),
+        Math.floor(truckConfig.height / sample.depth)
+      ));
+      const groupStacks: ItemStack[] = [];
+      const stackCount = Math.ceil(sorted.length / layersPerStack);
+
+      sorted.forEach((item, index) => {
+        const dimensions = this.getItemDimensions(item)!;
+        const fits = (stack: ItemStack) =>
+          stack.items.length < Math.min(this.getMaxLayers(item), layersPerStack) &&
+          stack.depth + dimensions.depth <= truckConfig.height &&
+          this.canCarry(stack, item);
+
+        if (groupStacks.length < stackCount) {
+          groupStacks.push(this.createStack(item, dimensions));
+          return;
+        }
+
+        const preferred = groupStacks[index % stackCount];
+        const target = fits(preferred) ? preferred : groupStacks.find(fits);
+        if (target) {
+          target.items.push(item);
+          target.layerDepths.push(dimensions.depth);
+          target.depth += dimensions.depth;
+        } else {
+          groupStacks.push(this.createStack(item, dimensions));
+        }
+      });
+
+      stacks.push(...groupStacks);
+    }
+
+    return stacks;
+  }
+
+  private static createStack(
+    item: Item,
+    dimensions: { width: number; height: number; depth: number }
+  ): ItemStack {
+    return {
+      items: [item],
+      width: dimensions.width,
+      height: dimensions.height,
+      depth: dimensions.depth,
+      layerDepths: [dimensions.depth],
+      rotation: item.rotation
+    };
+  }
+
+  private static recordStack(
+    stack: ItemStack,
+    footprint: { x: number; y: number; width: number; height: number },
+    placements: ItemPlacement[],
+    space: FreeSpace,
+    result: OptimizationOutput,
+    truckConfig: TruckConfig
+  ): void {
+    // Locked stacks keep their ids, so take the first free one
+    const usedIds = new Set(result.placedItems.map(p => p.stackId));
+    let next = 1;
+    while (usedIds.has(`S${next}`)) next++;
+    const stackId = stack.items.length > 1 ? `S${next}` : undefined;
+    let z = 0;
+    stack.items.forEach((item, index) => {
+      const depth = stack.layerDepths[index];
+      this.recordPlacement(
+        {
+          ...footprint,
+          z,
+          depth,
+          weight: item.weight_kg,
+          item,
+          layer: index + 1,
+          stackId
+        },
+        placements,
+        space,
+        result,
+        truckConfig
+      );
+      z += depth;
+    });
+  }
+
+  private static recordPlacement(
+    placement: ItemPlacement,
+    placements: ItemPlacement[],
+    space: FreeSpace,
+    result: OptimizationOutput,
+    truckConfig: TruckConfig
+  ): void {
+    const { item } = placement;
+
+    placements.push(placement);
+    space.occupy(placement.x, placement.y, placement.width, placement.height);
+    result.totalWeight += placement.weight;
+    result.placedItems.push({
+      item_id: item.item_id,
+      type: item.type,
+      subtype: item.subtype,
+      x: placement.x,
+      y: placement.y,
+      z: placement.z,
+      width: placement.width,
+      height: placement.height,
+      depth: placement.depth,
+      rotated: this.isRotated(item, placement),
+      weight: placement.weight,
+      zone: this.getZoneAt(placement.x, placement.y, placement.width, placement.height, truckConfig)?.name ?? "None",
+      layer: placement.layer,
+      stackId: placement.stackId,
+      stop: item.delivery_stop ?? undefined,
+      adrClass: item.adr_class ?? undefined,
+      handling: this.getHandlingFlags(item),
+      maxTopLoad: item.max_top_load_kg ?? undefined,
+      locked: placement.locked || undefined
+    });
+  }
+
+  private static getHandlingFlags(item: Item): HandlingFlag[] | undefined {
+    const flags = handlingFlags.filter(flag => item[flag]);
+    return flags.length > 0 ? flags : undefined;
+  }
+
+  private static isRotated(item: Item, placement: ItemPlacement): boolean {
+    const dimensions = this.getItemDimensions(item);
+    return dimensions !== null && dimensions.width !== dimensions.height && placement.width !== dimensions.width;
+  }
+
+  // width/height are the floor footprint (across/along the truck), depth the vertical extent.
+  // An item's own dimensions win over the catalog, so goods the catalog lacks can be packed too;
+  // null when a dimension is known from neither or is not positive.
+  private static getItemDimensions(item: Item): { width: number; height: number; depth: number } | null {
+    const typeConfig = ITEM_CONFIGURATIONS[item.type as keyof typeof ITEM_CONFIGURATIONS];
+    const subtypeConfig = typeConfig?.[item.subtype as keyof typeof typeConfig] as
+      ItemDimensions | TankDimensions | undefined;
+    const depth = item.height_cm ?? subtypeConfig?.depth;
+
+    if (item.type === "tank") {
+      const diameter = item.width_cm ?? item.length_cm ?? (subtypeConfig as TankDimensions | undefined)?.diameter;
+      return diameter && depth && diameter > 0 && depth > 0 ? { width: diameter, height: diameter, depth } : null;
+    }
+
+    const catalog = subtypeConfig as ItemDimensions | undefined;
+    const width = item.width_cm ?? catalog?.width;
+    const height = item.length_cm ?? catalog?.height;
+    return width && height && depth && width > 0 && height > 0 && depth > 0 ? { width, height, depth } : null;
+  }
+
+  private static getItemArea(item: Item): number {
+    const dimensions = this.getItemDimensions(item);
+    if (!dimensions) return 0;
+    return dimensions.width * dimensions.height;
+  }
+
+  private static canPlaceAt(
+    x: number,
+    y: number,
+    z: number,
+    width: number,
+    height: number,
+    depth: number,
+    placements: ItemPlacement[],
+    truckConfig: TruckConfig,
+    circular = false // the footprint is the circle inscribed in width x height
+  ): boolean {
+    // Check truck boundaries, including the roof
+    if (
+      x < 0 || y < 0 || z < 0 ||
+      x + width > truckConfig.width || y + height > truckConfig.length || z + depth > truckConfig.height
+    ) {
+      return false;
+    }
+
+    // Check collision with existing items
+    const footprint = { x, y, width, height };
+    for (const placement of placements) {
+      if (z >= placement.z + placement.depth || placement.z >= z + depth) continue;
+      if (this.footprintsOverlap(footprint, circular, placement, this.isCircular(placement.item))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  // Tanks stand on round footprints; everything else on its rectangle
+  static isCircular(item: Pick<Item, "type">): boolean {
+    return item.type === "tank";
+  }
+
+  static footprintsOverlap(
+    a: { x: number; y: number; width: number; height: number },
+    aCircular: boolean,
+    b: { x: number; y: number; width: number; height: number },
+    bCircular: boolean
+  ): boolean {
+    // Bounding boxes apart: nothing inside them can touch
+    if (!this.rectanglesOverlap(a.x, a.y, a.width, a.height, b.x, b.y, b.width, b.height)) return false;
+    if (!aCircular && !bCircular) return true;
+    if (aCircular && bCircular) {
+      const reach = (Math.min(a.width, a.height) + Math.min(b.width, b.height)) / 2;
+      const distance = Math.hypot(a.x + a.width / 2 - (b.x + b.width / 2), a.y + a.height / 2 - (b.y + b.height / 2));
+      return distance < reach - 0.001;
+    }
+
+    // Circle against rectangle: the rectangle's point nearest the centre lies inside the circle
+    const circle = aCircular ? a : b;
+    const rect = aCircular ? b : a;
+    const cx = circle.x + circle.width / 2;
+    const cy = circle.y + circle.height / 2;
+    const nearestX = Math.max(rect.x, Math.min(cx, rect.x + rect.width));
+    const nearestY = Math.max(rect.y, Math.min(cy, rect.y + rect.height));
+    return Math.hypot(cx - nearestX, cy - nearestY) < Math.min(circle.width, circle.height) / 2 - 0.001;
+  }
+
+  private static rectanglesOverlap(
+    x1: number, y1: number, w1: number, h1: number,
+    x2: number, y2: number, w2: number, h2: number
+  ): boolean {
+    return !(x1 >= x2 + w2 || x2 >= x1 + w1 || y1 >= y2 + h2 || y2 >= y1 + h1);
+  }
+
+  // Zone holding the centre of a floor footprint, as goods are assigned when placed
+  static getZoneAt(
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    truckConfig: TruckConfig
+  ): TruckZone | undefined {
+    const along = y + height / 2;
+    const across = x + width / 2;
+    return truckConfig.zones.find(zone =>
+      along >= zone.x && along < zone.x + zone.width && across >= zone.y && across < zone.y + zone.height
+    );
+  }
+
+  // Splits the empty floor in front of the rearmost item into disjoint rectangles, largest first
+  private static findGaps(placements: ItemPlacement[], truckConfig: TruckConfig): Gap[] {
+    const usedLength = placements.reduce((max, p) => Math.max(max, p.y + p.height), 0);
+    if (usedLength === 0) return [];
+
+    const space = new FreeSpace(truckConfig.width, truckConfig.length);
+    placements.filter(p => p.z === 0).forEach(p => space.occupy(p.x, p.y, p.width, p.height));
+    space.occupy(0, usedLength, truckConfig.width, truckConfig.length - usedLength);
+
+    const gaps: Gap[] = [];
+    for (;;) {
+      const rects = space.rects.filter(rect => Math.min(rect.width, rect.height) >= MIN_GAP);
+      if (rects.length === 0) break;
+      const rect = rects.reduce((best, r) => (r.width * r.height > best.width * best.height ? r : best));
+      space.occupy(rect.x, rect.y, rect.width, rect.height);
+      gaps.push({ ...rect, depth: this.getGapDepth(rect, placements, truckConfig), filled: false });
+    }
+    return gaps;
+  }
+
+  // A gap is as tall as the highest goods touching it; gaps at the walls only count the goods
+  private static getGapDepth(rect: FreeRect, placements: ItemPlacement[], truckConfig: TruckConfig): number {
+    const touching = placements.filter(p =>
+      p.x <= rect.x + rect.width + MIN_GAP && p.x + p.width >= rect.x - MIN_GAP &&
+      p.y <= rect.y + rect.height + MIN_GAP && p.y + p.height >= rect.y - MIN_GAP
+    );
+    if (touching.length === 0) return truckConfig.height;
+    return touching.reduce((max, p) => Math.max(max, p.z + p.depth), 0);
+  }
+
+  /**
+   * An airbag closes a gap that is no thicker than it inflates (its depth) and spans the gap's long
+   * side with its width, no taller than the goods. The thinnest suitable type is used; 3D airbags
+   * are preferred next to tanks. Gaps no airbag in stock can close stay unfilled.
+   */
+  private static placeAirbags(
+    gaps: Gap[],
+    placements: ItemPlacement[],
+    inventory: AirbagUsage,
+    result: OptimizationOutput
+  ): void {
+    const used = result.usedAirbags;
+
+    for (const gap of gaps) {
+      const lengthwise = gap.height >= gap.width; // the long side runs along the truck
+      const thickness = lengthwise ? gap.width : gap.height;
+      const span = lengthwise ? gap.height : gap.width;
+      const nextToTank = placements.some(p =>
+        p.item.type === "tank" &&
+        p.x <= gap.x + gap.width + MIN_GAP && p.x + p.width >= gap.x - MIN_GAP &&
+        p.y <= gap.y + gap.height + MIN_GAP && p.y + p.height >= gap.y - MIN_GAP
+      );
+
+      const candidates = AIRBAG_TYPES
+        .filter(type => {
+          const config = AIRBAG_CONFIGURATIONS[type];
+          return thickness <= config.depth && config.width <= span && config.height <= gap.depth;
+        })
+        .sort((a, b) =>
+          AIRBAG_CONFIGURATIONS[a].depth - AIRBAG_CONFIGURATIONS[b].depth ||
+          Number(b === "3d" && nextToTank) - Number(a === "3d" && nextToTank)
+        );
+
+      for (const type of candidates) {
+        const config = AIRBAG_CONFIGURATIONS[type];
+        const needed = Math.max(1, Math.floor(span / config.width));
+        if (inventory[type] - used[type] < needed) continue;
+
+        for (let i = 0; i < needed; i++) {
+          const offset = i * config.width;
+          result.airbags.push({
+            type,
+            x: lengthwise ? gap.x : gap.x + offset,
+            y: lengthwise ? gap.y + offset : gap.y,
+            width: lengthwise ? thickness : config.width,
+            height: lengthwise ? config.width : thickness,
+            depth: config.height
+          });
+        }
+        used[type] += needed;
+        gap.filled = true;
+        break;
+      }
+    }
+  }
+
+  private static calculateMetrics(result: OptimizationOutput, truckConfig: TruckConfig): void {
+    // Space utilization (volume) and floor utilization (footprints on the floor only)
+    const totalArea = truckConfig.length * truckConfig.width;
+    const totalVolume = totalArea * truckConfig.height;
+    const usedVolume = result.placedItems.reduce((sum, item) => sum + (item.width * item.height * item.depth), 0);
+    const usedArea = result.placedItems
+      .filter(item => item.z === 0)
+      .reduce((sum, item) => sum + (item.width * item.height), 0);
+    result.spaceUtilization = Math.round((usedVolume / totalVolume) * 100);
+    result.floorUtilization = Math.round((usedArea / totalArea) * 100);
+    result.maxLoadHeight = result.placedItems.reduce((max, item) => Math.max(max, item.z + item.depth), 0);
+    result.usedLength = result.placedItems.reduce((max, item) => Math.max(max, item.y + item.height), 0);
+
+    // Weight utilization
+    result.weightUtilization = Math.round((result.totalWeight / truckConfig.maxWeight) * 100);
+
+    // Payload per zone, as classified when each item was placed
+    result.zoneWeights = result.placedItems.reduce<Record<string, number>>((weights, item) => {
+      weights[item.zone] = (weights[item.zone] || 0) + item.weight;
+      return weights;
+    }, {});
+
+    // Centre of gravity of the payload against the vehicle's tolerance bands
+    result.centerOfGravity = this.calculateCenterOfGravity(result.placedItems);
+    result.stabilityWarnings = this.getStabilityWarnings(result.centerOfGravity, truckConfig);
+
+    // Axle loads from a moment balance over the real axle geometry
+    const axleLoads = calculateAxleLoads(getItemLoads(result.placedItems), truckConfig);
+    result.frontAxleLoad = axleLoads.front;
+    result.rearAxleLoad = axleLoads.rear;
+    result.tractorAxleLoads = axleLoads.tractor;
+
+    // Balance compares how hard each end works against its own limit
+    const frontShare = axleLoads.front / truckConfig.frontAxleLimit;
+    const rearShare = axleLoads.rear / truckConfig.rearAxleLimit;
+
+    if (isAxleOverloaded(axleLoads, truckConfig)) {
+      result.loadBalance = "Overloaded";
+    } else if (Math.abs(frontShare - rearShare) > 0.3) {
+      result.loadBalance = "Unbalanced";
+    } else if (result.adrViolations.length > 0) {
+      result.loadBalance = "Non-compliant";
+    } else {
+      result.loadBalance = "Optimal";
+    }
+  }
+
+  private static calculateCenterOfGravity(placedItems: PlacedItem[]): CenterOfGravity | null {
+    const totalWeight = placedItems.reduce((sum, item) => sum + item.weight, 0);
+    if (totalWeight <= 0) return null;
+
+    const moment = (position: (item: PlacedItem) => number) =>
+      placedItems.reduce((sum, item) => sum + position(item) * item.weight, 0) / totalWeight;
+    return {
+      x: moment(item => item.x + item.width / 2),
+      y: moment(item => item.y + item.height / 2),
+      z: moment(item => item.z + item.depth / 2)
+    };
+  }
+
+  private static getStabilityWarnings(cog: CenterOfGravity | null, truckConfig: TruckConfig): string[] {
+    if (!cog) return [];
+
+    const { longitudinal, lateral, vertical } = truckConfig.cogTolerance;
+    const warnings: string[] = [];
+    const sideOffset = cog.x - truckConfig.width / 2;
+
+    if (Math.abs(sideOffset) > lateral) {
+      warnings.push(
+        `Side-heavy: centre of gravity ${Math.round(Math.abs(sideOffset))} cm off the centreline ` +
+        `(limit ${lateral} cm) - spread heavy goods across both walls`
+      );
+    }
+    if (cog.z > vertical) {
+      warnings.push(
+        `Top-heavy: centre of gravity ${Math.round(cog.z)} cm above the floor (limit ${vertical} cm) - ` +
+        "put heavier goods in the bottom layers"
+      );
+    }
+    if (cog.y < longitudinal.min) {
+      warnings.push(`Nose-heavy: centre of gravity ${Math.round(cog.y)} cm from the front wall (band starts at ${longitudinal.min} cm)`);
+    } else if (cog.y > longitudinal.max) {
+      warnings.push(`Tail-heavy: centre of gravity ${Math.round(cog.y)} cm from the front wall (band ends at ${longitudinal.max} cm)`);
+    }
+    return warnings;
+  }
+}
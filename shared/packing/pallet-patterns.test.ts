@@ -0,0 +1,79 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { solvePalletPattern, type PalletSlot } from "./pallet-patterns";
+
+const EUR = { width: 120, height: 80 };
+const INDUSTRIAL = { width: 120, height: 100 };
+const TRAILER = { length: 1360, width: 248 };
+const CONTAINER = { length: 1200, width: 235 };
+
+// Pallets per row, front to back
+function rows(slots: PalletSlot[]): number[] {
+  const counts = new Map<number, number>();
+  slots.forEach(slot => counts.set(slot.y, (counts.get(slot.y) ?? 0) + 1));
+  return Array.from(counts.keys()).sort((a, b) => a - b).map(y => counts.get(y)!);
+}
+
+function assertNoOverlaps(slots: PalletSlot[], space: { length: number; width: number }): void {
+  for (const slot of slots) {
+    assert.ok(slot.x >= 0 && slot.x + slot.width <= space.width, `slot at ${slot.x}, ${slot.y} sticks out`);
+    assert.ok(slot.y >= 0 && slot.y + slot.height <= space.length, `slot at ${slot.x}, ${slot.y} sticks out`);
+  }
+  for (let i = 0; i < slots.length; i++) {
+    for (let j = i + 1; j < slots.length; j++) {
+      const a = slots[i];
+      const b = slots[j];
+      const apart = a.x >= b.x + b.width || b.x >= a.x + a.width || a.y >= b.y + b.height || b.y >= a.y + a.height;
+      assert.ok(apart, `slots ${i} and ${j} overlap`);
+    }
+  }
+}
+
+test("33 EUR pallets fill a 13.6 m trailer in 11 rows of 3", () => {
+  const pattern = solvePalletPattern(33, EUR, TRAILER);
+
+  assert.equal(pattern.slots.length, 33);
+  assert.equal(pattern.usedLength, 1320);
+  assert.deepEqual(rows(pattern.slots), Array(11).fill(3));
+  assertNoOverlaps(pattern.slots, TRAILER);
+});
+
+test("22 EUR pallets stand 11 + 11 in rows of 2 on 8.8 m", () => {
+  const pattern = solvePalletPattern(22, EUR, { length: 880, width: 248 });
+
+  assert.equal(pattern.slots.length, 22);
+  assert.equal(pattern.usedLength, 880);
+  assert.deepEqual(rows(pattern.slots), Array(11).fill(2));
+});
+
+test("counts between the known patterns mix rows of 2 and 3 in the least length", () => {
+  // Three rows of 3 and two of 2: 3 · 120 + 2 · 80 = 520 cm
+  const pattern = solvePalletPattern(13, EUR, TRAILER);
+
+  assert.equal(pattern.slots.length, 13);
+  assert.equal(pattern.usedLength, 520);
+  assertNoOverlaps(pattern.slots, TRAILER);
+});
+
+test("120x100 industrial pallets stand 13 rows of 2 on a 13.6 m trailer", () => {
+  const pattern = solvePalletPattern(30, INDUSTRIAL, TRAILER);
+
+  assert.equal(pattern.slots.length, 26);
+  assert.equal(pattern.capacity, 26);
+  assert.equal(pattern.usedLength, 1300);
+  assert.deepEqual(rows(pattern.slots), Array(13).fill(2));
+});
+
+test("a container takes one lane of each orientation side by side", () => {
+  const pattern = solvePalletPattern(40, INDUSTRIAL, CONTAINER);
+
+  assert.equal(pattern.slots.length, 22);
+  assert.deepEqual(new Set(pattern.slots.map(slot => slot.width)), new Set([100, 120]));
+  assertNoOverlaps(pattern.slots, CONTAINER);
+});
+
+test("no pallets, or pallets wider than the truck, give an empty pattern", () => {
+  assert.equal(solvePalletPattern(0, EUR, TRAILER).slots.length, 0);
+  assert.equal(solvePalletPattern(5, { width: 300, height: 260 }, TRAILER).slots.length, 0);
+  assert.equal(solvePalletPattern(5, { width: 120, height: -80 }, TRAILER).slots.length, 0);
+});
@@ -0,0 +1,151 @@
+export interface PalletFootprint {
+  width: number; // cm
+  height: number; // cm
+}
+
+export interface PalletSlot {
+  x: number; // across the truck
+  y: number; // along the truck, from the front wall
+  width: number;
+  height: number;
+}
+
+export interface PalletPattern {
+  slots: PalletSlot[];
+  usedLength: number; // loading metres taken by the pattern (cm)
+  capacity: number; // how many pallets the chosen bands hold
+}
+
+// A band spans the full truck width for `length` cm. It holds `longLanes` lanes with the long
+// side across the truck and `shortLanes` lanes with the short side across. A plain row is a
+// band exactly one pallet deep; longer bands give the lengthwise lane patterns used in containers.
+interface PatternBand {
+  longLanes: number;
+  shortLanes: number;
+  length: number;
+  count: number;
+}
+
+/**
+ * Finds the pallet layout that fits `count` pallets in the least loading length, or as many
+ * pallets as possible when they do not all fit. Works for any rectangular footprint: 120x80 EUR
+ * gives 11 rows of 3 (33) on a 13.6 m trailer, 120x100 gives 13 rows of 2 (26), and a 2.35 m
+ * container gets one lane of each orientation side by side.
+ */
+export function solvePalletPattern(
+  count: number,
+  footprint: PalletFootprint,
+  space: { length: number; width: number }
+): PalletPattern {
+  // Whole centimetres keep the length table exact
+  const long = Math.ceil(Math.max(footprint.width, footprint.height));
+  const short = Math.ceil(Math.min(footprint.width, footprint.height));
+  const maxLength = Math.floor(space.length);
+  const empty: PalletPattern = { slots: [], usedLength: 0, capacity: 0 };
+
+  if (count <= 0 || short <= 0 || short > space.width || short > maxLength) return empty;
+
+  const bands = getCandidateBands(long, short, space.width, maxLength);
+  if (bands.length === 0) return empty;
+
+  // best[l] = most pallets using bands whose lengths add up to exactly l, fewest bands on ties
+  const best: Array<{ count: number; bands: number; band: PatternBand | null } | null> =
+    new Array(maxLength + 1).fill(null);
+  best[0] = { count: 0, bands: 0, band: null };
+
+  for (let length = 1; length <= maxLength; length++) {
+    for (const band of bands) {
+      const previous = length >= band.length ? best[length - band.length] : null;
+      if (!previous) continue;
+
+      const candidate = { count: previous.count + band.count, bands: previous.bands + 1, band };
+      const current = best[length];
+      if (!current || candidate.count > current.count ||
+        (candidate.count === current.count && candidate.bands < current.bands)) {
+        best[length] = candidate;
+      }
+    }
+  }
+
+  // Shortest pattern that holds them all, otherwise the fullest one
+  let chosenLength = -1;
+  for (let length = 0; length <= maxLength; length++) {
+    const entry = best[length];
+    if (!entry) continue;
+    if (entry.count >= count) {
+      chosenLength = length;
+      break;
+    }
+    if (chosenLength < 0 || entry.count > best[chosenLength]!.count) {
+      chosenLength = length;
+    }
+  }
+
+  const chosenBands: PatternBand[] = [];
+  for (let length = chosenLength; length > 0;) {
+    const band = best[length]!.band!;
+    chosenBands.unshift(band);
+    length -= band.length;
+  }
+
+  const slots: PalletSlot[] = [];
+  let bandY = 0;
+  for (const band of chosenBands) {
+    slots.push(...getBandSlots(band, long, short, bandY));
+    bandY += band.length;
+  }
+
+  // Fill from the front wall so a partly used pattern leaves the free space at the doors
+  slots.sort((a, b) => a.y - b.y || a.x - b.x);
+
+  return {
+    slots: slots.slice(0, count),
+    usedLength: chosenLength,
+    capacity: slots.length
+  };
+}
+
+function getCandidateBands(long: number, short: number, width: number, maxLength: number): PatternBand[] {
+  const laneMixes: Array<[number, number]> = [];
+  for (let longLanes = 0; longLanes * long <= width; longLanes++) {
+    const shortLanes = Math.floor((width - longLanes * long) / short);
+    if (longLanes + shortLanes === 0) continue;
+    // Skip mixes that leave room for one more long lane, they are always beaten
+    if (width - longLanes * long - shortLanes * short >= long) continue;
+    laneMixes.push([longLanes, shortLanes]);
+  }
+
+  // Band counts only change at multiples of either pallet side
+  const lengths = new Set<number>();
+  for (let length = short; length <= maxLength; length += short) lengths.add(length);
+  for (let length = long; length <= maxLength; length += long) lengths.add(length);
+
+  const bands: PatternBand[] = [];
+  for (const [longLanes, shortLanes] of laneMixes) {
+    for (const length of Array.from(lengths)) {
+      const count = longLanes * Math.floor(length / short) + shortLanes * Math.floor(length / long);
+      if (count > 0) bands.push({ longLanes, shortLanes, length, count });
+    }
+  }
+  return bands;
+}
+
+function getBandSlots(band: PatternBand, long: number, short: number, bandY: number): PalletSlot[] {
+  const slots: PalletSlot[] = [];
+  let laneX = 0;
+
+  for (let lane = 0; lane < band.longLanes; lane++) {
+    for (let y = 0; y + short <= band.length; y += short) {
+      slots.push({ x: laneX, y: bandY + y, width: long, height: short });
+    }
+    laneX += long;
+  }
+  for (let lane = 0; lane < band.shortLanes; lane++) {
+    for (let y = 0; y + long <= band.length; y += long) {
+      slots.push({ x: laneX, y: bandY + y, width: short, height: long });
+    }
+    laneX += short;
+  }
+
+  return slots;
+}
@@ -0,0 +1,56 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { validatePlan } from "./plan-validator";
+import { item, optimize, placed } from "./test-fixtures";
+import { TRUCK_CONFIGURATIONS } from "./truck-configs";
+
+test("EWC outside the catalog stacked by the engine passes validation", () => {
+  const truckConfig = TRUCK_CONFIGURATIONS.pianale;
+  const result = optimize([item({
+    item_id: "IBC", type: "EWC", subtype: "custom", number_of_items: 4, weight_kg: 800,
+    length_cm: 120, width_cm: 100, height_cm: 100, stackable: true
+  })]);
+
+  assert.equal(result.remainingItems.length, 0);
+  assert.ok(result.placedItems.some(placed => placed.z > 0));
+  assert.deepEqual(validatePlan(result.placedItems, truckConfig), []);
+});
+
+test("goods sticking out of the load space or into each other are reported", () => {
+  const truckConfig = TRUCK_CONFIGURATIONS.pianale;
+  const violations = validatePlan([
+    placed({ item_id: "A", zone: "Front Zone" }),
+    placed({ item_id: "B", x: 60, zone: "Front Zone" }),
+    placed({ item_id: "C", x: 200, y: 600, zone: "None" })
+  ], truckConfig);
+
+  assert.deepEqual(violations.map(violation => [violation.rule, violation.itemIds]), [
+    ["bounds", ["C"]],
+    ["overlap", ["A", "B"]]
+  ]);
+});
+
+test("round tanks may stand where their bounding squares touch", () => {
+  const tanks = [
+    placed({ item_id: "T1", type: "tank", subtype: "big", width: 100, height: 100, depth: 120, zone: "Front Zone" }),
+    placed({ item_id: "T2", type: "tank", subtype: "big", x: 85, y: 55, width: 100, height: 100, depth: 120, zone: "Front Zone" })
+  ];
+
+  assert.deepEqual(validatePlan(tanks, TRUCK_CONFIGURATIONS.pianale), []);
+});
+
+test("fragile goods carry nothing and columns stay within the catalog layers", () => {
+  const violations = validatePlan([
+    placed({ item_id: "GLASS", depth: 100, zone: "Front Zone", handling: ["fragile"] }),
+    placed({ item_id: "TOP", z: 100, depth: 100, layer: 2, zone: "Front Zone" })
+  ], TRUCK_CONFIGURATIONS.pianale);
+
+  assert.deepEqual(violations.map(violation => violation.rule), ["stacking", "stacking"]);
+});
+
+test("the recorded zone must be the one under the centre of the footprint", () => {
+  const [violation] = validatePlan([placed({ item_id: "A", y: 700, zone: "Front Zone" })], TRUCK_CONFIGURATIONS.pianale);
+
+  assert.equal(violation.rule, "zone");
+  assert.match(violation.message, /stands in Rear Zone/);
+});
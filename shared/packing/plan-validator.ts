@@ -0,0 +1,215 @@
+import { stackableTypes, type PlacedItem } from "@shared/schema";
+import type { TruckConfig, TruckZone } from "./truck-configs";
+import { calculateAxleLoads, getItemLoads } from "./axle-loads";
+import { PackingAlgorithm } from "./packing-algorithm";
+
+export type PlanRule = "bounds" | "overlap" | "weight" | "axle" | "stacking" | "zone";
+
+export interface PlanViolation {
+  rule: PlanRule;
+  message: string;
+  itemIds: string[];
+}
+
+// Slack for rounding in stored and hand-edited plans (cm, kg)
+const TOLERANCE = 0.01;
+
+/**
+ * Checks a load plan against the truck on its own terms, whoever made it: the engine, a person
+ * editing positions, or another system. Nothing is taken from the order, so the rules are the
+ * ones a plan carries itself: footprints and heights, weights, handling flags and the engine's
+ * stacking limits. Returns every violation found, an empty list for a valid plan.
+ */
+export function validatePlan(plan: PlacedItem[], truckConfig: TruckConfig): PlanViolation[] {
+  return [
+    ...checkBounds(plan, truckConfig),
+    ...checkOverlaps(plan),
+    ...checkWeights(plan, truckConfig),
+    ...checkStacking(plan),
+    ...checkZones(plan, truckConfig)
+  ];
+}
+
+function checkBounds(plan: PlacedItem[], truckConfig: TruckConfig): PlanViolation[] {
+  return plan.flatMap(item => {
+    if (item.width <= 0 || item.height <= 0 || item.depth <= 0) {
+      return [violation("bounds", `${item.item_id} has no size (${item.width} × ${item.height} × ${item.depth} cm)`, [item])];
+    }
+    const outside = item.x < -TOLERANCE || item.y < -TOLERANCE || item.z < -TOLERANCE ||
+      item.x + item.width > truckConfig.width + TOLERANCE ||
+      item.y + item.height > truckConfig.length + TOLERANCE ||
+      item.z + item.depth > truckConfig.height + TOLERANCE;
+    return outside
+      ? [violation("bounds", `${item.item_id} at (${item.x}, ${item.y}, ${item.z}) reaches outside the load space`, [item])]
+      : [];
+  });
+}
+
+function checkOverlaps(plan: PlacedItem[]): PlanViolation[] {
+  const violations: PlanViolation[] = [];
+  for (let i = 0; i < plan.length; i++) {
+    for (let j = i + 1; j < plan.length; j++) {
+      const a = plan[i];
+      const b = plan[j];
+      const vertical = a.z < b.z + b.depth - TOLERANCE && b.z < a.z + a.depth - TOLERANCE;
+      if (vertical && footprintsOverlap(a, b)) {
+        violations.push(violation("overlap", `${a.item_id} and ${b.item_id} take the same space`, [a, b]));
+      }
+    }
+  }
+  return violations;
+}
+
+function checkWeights(plan: PlacedItem[], truckConfig: TruckConfig): PlanViolation[] {
+  const violations: PlanViolation[] = [];
+  const totalWeight = plan.reduce((sum, item) => sum + item.weight, 0);
+  if (totalWeight > truckConfig.maxWeight + TOLERANCE) {
+    violations.push(violation(
+      "weight",
+      `Payload of ${Math.round(totalWeight)} kg exceeds ${truckConfig.maxWeight} kg`,
+      plan
+    ));
+  }
+
+  const loads = calculateAxleLoads(getItemLoads(plan), truckConfig);
+  const tractor = truckConfig.axles.tractor;
+  const axles: Array<[string, number, number]> = [
+    ["Front axle", loads.front, truckConfig.frontAxleLimit],
+    ["Rear axle group", loads.rear, truckConfig.rearAxleLimit]
+  ];
+  if (tractor && loads.tractor) {
+    axles.push(
+      ["Tractor steer axle", loads.tractor.steer, tractor.steerLimit],
+      ["Tractor drive axle", loads.tractor.drive, tractor.driveLimit]
+    );
+  }
+  for (const [axle, load, limit] of axles) {
+    if (load > limit + TOLERANCE) {
+      violations.push(violation("axle", `${axle} carries ${Math.round(load)} kg, over its ${limit} kg limit`, plan));
+    }
+  }
+  return violations;
+}
+
+/**
+ * Everything off the floor must stand on goods whose top is at its base, with the centre of its
+ * footprint over them. Goods flagged fragile or no-stack carry nothing, a top-load limit caps
+ * what stands above, and no column grows past the layers its goods allow.
+ */
+function checkStacking(plan: PlacedItem[]): PlanViolation[] {
+  const violations: PlanViolation[] = [];
+  const supportersOf = plan.map(item => item.z <= TOLERANCE ? [] : plan.filter(other =>
+    other !== item && other.depth > 0 && Math.abs(other.z + other.depth - item.z) <= TOLERANCE && footprintsOverlap(item, other)
+  ));
+
+  // Layer an item stands in, and the fewest layers any item of its column allows
+  const layers = new Map<PlacedItem, { layer: number; allowed: number }>();
+  const layerOf = (index: number): { layer: number; allowed: number } => {
+    const item = plan[index];
+    const known = layers.get(item);
+    if (known) return known;
+    const below = supportersOf[index].map(supporter => layerOf(plan.indexOf(supporter)));
+    const entry = {
+      layer: 1 + below.reduce((max, support) => Math.max(max, support.layer), 0),
+      allowed: below.reduce((min, support) => Math.min(min, support.allowed), getMaxLayers(item))
+    };
+    layers.set(item, entry);
+    return entry;
+  };
+
+  plan.forEach((item, index) => {
+    if (item.z <= TOLERANCE) return;
+
+    const supporters = supportersOf[index];
+    const centreX = item.x + item.width / 2;
+    const centreY = item.y + item.height / 2;
+    const supported = supporters.some(other =>
+      centreX >= other.x && centreX <= other.x + other.width && centreY >= other.y && centreY <= other.y + other.height
+    );
+    if (!supported) {
+      violations.push(violation("stacking", `${item.item_id} at ${item.z} cm has nothing beneath its centre`, [item]));
+    }
+
+    const { layer, allowed } = layerOf(index);
+    if (layer > allowed) {
+      violations.push(violation(
+        "stacking",
+        `${item.item_id} stands in layer ${layer}; its column allows ${allowed}`,
+        [item, ...supporters]
+      ));
+    }
+  });
+
+  for (const item of plan) {
+    const above = plan.filter(other => other.z >= item.z + item.depth - TOLERANCE && footprintsOverlap(item, other));
+    if (above.length === 0) continue;
+
+    const weight = above.reduce((sum, other) => sum + other.weight, 0);
+    const flag = item.handling?.find(handling => handling === "fragile" || handling === "no_stack");
+    if (flag) {
+      violations.push(violation(
+        "stacking",
+        `${item.item_id} is ${flag === "fragile" ? "fragile" : "marked do not stack"} but carries ${above.length} item(s)`,
+        [item, ...above]
+      ));
+    } else if (item.maxTopLoad !== undefined && weight > item.maxTopLoad + TOLERANCE) {
+      violations.push(violation(
+        "stacking",
+        `${item.item_id} carries ${Math.round(weight)} kg, over its ${item.maxTopLoad} kg top load`,
+        [item, ...above]
+      ));
+    }
+  }
+  return violations;
+}
+
+// Zones go by the centre of each footprint, as when the engine places goods
+function checkZones(plan: PlacedItem[], truckConfig: TruckConfig): PlanViolation[] {
+  const violations: PlanViolation[] = [];
+  const zoneItems = new Map<TruckZone, PlacedItem[]>();
+
+  for (const item of plan) {
+    const zone = PackingAlgorithm.getZoneAt(item.x, item.y, item.width, item.height, truckConfig);
+    const zoneName = zone?.name ?? "None";
+    if (item.zone !== zoneName) {
+      violations.push(violation("zone", `${item.item_id} is recorded in ${item.zone} but stands in ${zoneName}`, [item]));
+    }
+    if (!zone) continue;
+
+    if (zone.allowedTypes && !zone.allowedTypes.includes(item.type)) {
+      violations.push(violation("zone", `${zone.name} does not take ${item.type} goods such as ${item.item_id}`, [item]));
+    }
+    zoneItems.set(zone, [...(zoneItems.get(zone) ?? []), item]);
+  }
+
+  zoneItems.forEach((items, zone) => {
+    const weight = items.reduce((sum, item) => sum + item.weight, 0);
+    if (zone.maxWeight !== undefined && weight > zone.maxWeight + TOLERANCE) {
+      violations.push(violation("zone", `${zone.name} holds ${Math.round(weight)} kg, over its ${zone.maxWeight} kg`, items));
+    }
+  });
+  return violations;
+}
+
+// Circles for tanks, as the engine places them; each footprint gives up half the slack on every side
+function footprintsOverlap(a: PlacedItem, b: PlacedItem): boolean {
+  return PackingAlgorithm.footprintsOverlap(inset(a), PackingAlgorithm.isCircular(a), inset(b), PackingAlgorithm.isCircular(b));
+}
+
+function inset(item: PlacedItem): { x: number; y: number; width: number; height: number } {
+  return {
+    x: item.x + TOLERANCE / 2,
+    y: item.y + TOLERANCE / 2,
+    width: item.width - TOLERANCE,
+    height: item.height - TOLERANCE
+  };
+}
+
+// Stacking rules come from the item type and the catalog; the plan does not carry the order line
+function getMaxLayers(item: PlacedItem): number {
+  return PackingAlgorithm.getMaxLayers({ ...item, stackable: stackableTypes.includes(item.type) });
+}
+
+function violation(rule: PlanRule, message: string, items: PlacedItem[]): PlanViolation {
+  return { rule, message, itemIds: Array.from(new Set(items.map(item => item.item_id))) };
+}
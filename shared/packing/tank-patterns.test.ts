@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { solveTankPattern } from "./tank-patterns";
+
+// Pianale floor: 13.6 m long, 2.48 m wide
+const PIANALE = { length: 1360, width: 248 };
+
+test("big tanks on the pianale stagger by the spare width and keep two in every row", () => {
+  const pattern = solveTankPattern(40, 100, PIANALE);
+
+  assert.equal(pattern.slots.length, 30);
+  for (const slot of pattern.slots) {
+    assert.ok(slot.x >= -0.001 && slot.x + 100 <= PIANALE.width + 0.001);
+    assert.ok(slot.y >= -0.001 && slot.y + 100 <= PIANALE.length + 0.001);
+  }
+  for (let i = 0; i < pattern.slots.length; i++) {
+    for (let j = i + 1; j < pattern.slots.length; j++) {
+      const a = pattern.slots[i];
+      const b = pattern.slots[j];
+      assert.ok(Math.hypot(a.x - b.x, a.y - b.y) >= 100 - 0.001, `tanks ${i} and ${j} overlap`);
+    }
+  }
+});
@@ -0,0 +1,166 @@
+export interface TankSlot {
+  x: number; // left edge of the tank's bounding square, across the truck
+  y: number; // front edge of the bounding square, along the truck from the front wall
+}
+
+// "square": plain rows; "hex-across": rows across the truck, every other row shifted sideways
+// and nested into the one before; "hex-along": the same with the rows running lengthwise
+export type TankPatternKind = "square" | "hex-across" | "hex-along";
+
+export interface TankPattern {
+  kind: TankPatternKind;
+  slots: TankSlot[];
+  usedLength: number; // loading length taken by the pattern (cm)
+}
+
+export interface Circle {
+  cx: number;
+  cy: number;
+  r: number;
+}
+
+const EPSILON = 0.001;
+
+/**
+ * Lays out `count` tanks of one diameter in an area with each lattice and keeps the one that
+ * holds the most tanks, in the least loading length on ties. Staggered rows are tried shifted by
+ * half a tank, which nests them deepest but can cost a tank in every other row, and shifted only
+ * by the spare width, which keeps every row full and still nests them part of the way.
+ */
+export function solveTankPattern(
+  count: number,
+  diameter: number,
+  space: { length: number; width: number }
+): TankPattern {
+  let best: TankPattern = { kind: "square", slots: [], usedLength: 0 };
+  if (count <= 0 || diameter <= 0) return best;
+
+  for (const kind of ["square", "hex-across", "hex-along"] as TankPatternKind[]) {
+    for (const offset of getRowOffsets(kind, diameter, space)) {
+      // Fill from the front wall so a partial pattern takes the least length
+      const slots = getLatticeSlots(kind, diameter, space, offset)
+        .sort((a, b) => a.y - b.y || a.x - b.x)
+        .slice(0, count);
+      const usedLength = slots.reduce((max, slot) => Math.max(max, slot.y + diameter), 0);
+      if (slots.length > best.slots.length ||
+        (slots.length === best.slots.length && usedLength < best.usedLength - EPSILON)) {
+        best = { kind, slots, usedLength };
+      }
+    }
+  }
+
+  return best;
+}
+
+// Sideways shifts of every other row: half a tank, and the spare width when that is less
+function getRowOffsets(kind: TankPatternKind, diameter: number, space: { length: number; width: number }): number[] {
+  if (kind === "square") return [0];
+  const across = kind === "hex-along" ? space.length : space.width;
+  const spare = across - Math.floor(across / diameter + EPSILON) * diameter;
+  return spare > EPSILON && spare < diameter / 2 - EPSILON ? [diameter / 2, spare] : [diameter / 2];
+}
+
+function getLatticeSlots(
+  kind: TankPatternKind,
+  diameter: number,
+  space: { length: number; width: number },
+  offset: number
+): TankSlot[] {
+  const slots: TankSlot[] = [];
+  // Rows run across the truck for "square" and "hex-across"; "hex-along" swaps the axes
+  const across = kind === "hex-along" ? space.length : space.width;
+  const along = kind === "hex-along" ? space.width : space.length;
+  // Rows shifted by `offset` nest until neighbouring tanks touch
+  const pitch = Math.sqrt(diameter * diameter - offset * offset);
+
+  for (let row = 0; row * pitch + diameter <= along + EPSILON; row++) {
+    const shift = row % 2 === 1 ? offset : 0;
+    for (let position = shift; position + diameter <= across + EPSILON; position += diameter) {
+      slots.push(kind === "hex-along"
+        ? { x: row * pitch, y: position }
+        : { x: position, y: row * pitch });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Centres where a circle of radius r touches two things at once: two walls, a wall and a placed
+ * circle, two placed circles, or the corner of a placed rectangle. Greedy placement over these
+ * nests small tanks into the pockets between big ones.
+ */
+export function getTangentCentres(
+  r: number,
+  circles: Circle[],
+  rects: Array<{ x: number; y: number; width: number; height: number }>,
+  area: { x: number; y: number; width: number; length: number }
+): Array<{ cx: number; cy: number }> {
+  const left = area.x + r;
+  const right = area.x + area.width - r;
+  const front = area.y + r;
+  const centres: Array<{ cx: number; cy: number }> = [
+    { cx: left, cy: front },
+    { cx: right, cy: front }
+  ];
+
+  for (const circle of circles) {
+    const reach = circle.r + r;
+    // Against the side walls and the front of the area
+    for (const cx of [left, right]) {
+      const dx = cx - circle.cx;
+      if (Math.abs(dx) <= reach) {
+        const dy = Math.sqrt(reach * reach - dx * dx);
+        centres.push({ cx, cy: circle.cy + dy }, { cx, cy: circle.cy - dy });
+      }
+    }
+    const dy = front - circle.cy;
+    if (Math.abs(dy) <= reach) {
+      const dx = Math.sqrt(reach * reach - dy * dy);
+      centres.push({ cx: circle.cx + dx, cy: front }, { cx: circle.cx - dx, cy: front });
+    }
+  }
+
+  // Touching two circles
+  for (let i = 0; i < circles.length; i++) {
+    for (let j = i + 1; j < circles.length; j++) {
+      centres.push(...touchBoth(circles[i], circles[j], r));
+    }
+  }
+
+  // Beside and behind placed rectangles
+  for (const rect of rects) {
+    centres.push(
+      { cx: rect.x + rect.width + r, cy: rect.y + r },
+      { cx: rect.x - r, cy: rect.y + r },
+      { cx: rect.x + r, cy: rect.y + rect.height + r },
+      { cx: rect.x + rect.width - r, cy: rect.y + rect.height + r },
+      { cx: left, cy: rect.y + rect.height + r },
+      { cx: right, cy: rect.y + rect.height + r }
+    );
+  }
+
+  return centres.filter(centre =>
+    centre.cx >= left - EPSILON && centre.cx <= right + EPSILON &&
+    centre.cy >= front - EPSILON && centre.cy <= area.y + area.length - r + EPSILON
+  );
+}
+
+// Centres of a circle of radius r touching both circles, when the gap between them allows it
+function touchBoth(a: Circle, b: Circle, r: number): Array<{ cx: number; cy: number }> {
+  const ra = a.r + r;
+  const rb = b.r + r;
+  const dx = b.cx - a.cx;
+  const dy = b.cy - a.cy;
+  const distance = Math.hypot(dx, dy);
+  if (distance < EPSILON || distance > ra + rb) return [];
+
+  const along = (ra * ra - rb * rb + distance * distance) / (2 * distance);
+  const height = Math.sqrt(Math.max(0, ra * ra - along * along));
+  const mx = a.cx + along * dx / distance;
+  const my = a.cy + along * dy / distance;
+  return [
+    { cx: mx - height * dy / distance, cy: my + height * dx / distance },
+    { cx: mx + height * dy / distance, cy: my - height * dx / distance }
+  ];
+}
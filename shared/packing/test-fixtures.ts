@@ -0,0 +1,61 @@
+// Fixtures shared by the packing tests
+import type { Item, PlacedItem } from "@shared/schema";
+import { PackingAlgorithm, type OptimizationInput } from "./packing-algorithm";
+import { TRUCK_CONFIGURATIONS } from "./truck-configs";
+
+export const NO_AIRBAGS = { standard: 0, small: 0, "3d": 0, pallet_stabilizer: 0 };
+
+// An order line with every optional column at its default
+export function item(fields: Partial<Item> & Pick<Item, "item_id" | "type" | "subtype" | "number_of_items" | "weight_kg">): Item {
+  return {
+    id: 1,
+    length_cm: null,
+    width_cm: null,
+    height_cm: null,
+    rotation: "allowed",
+    delivery_stop: null,
+    pinned_zone: null,
+    un_number: null,
+    adr_class: null,
+    packing_group: null,
+    fragile: false,
+    no_stack: false,
+    max_top_load_kg: null,
+    keep_upright: false,
+    away_from_doors: false,
+    stackable: false,
+    ...fields
+  };
+}
+
+// A EUR pallet on the floor in the front left corner, unless told otherwise
+export function placed(fields: Partial<PlacedItem> & Pick<PlacedItem, "item_id">): PlacedItem {
+  return {
+    type: "pallet",
+    subtype: "europallet",
+    x: 0,
+    y: 0,
+    z: 0,
+    width: 120,
+    height: 80,
+    depth: 150,
+    rotated: false,
+    weight: 500,
+    zone: "None",
+    layer: 1,
+    ...fields
+  };
+}
+
+export function optimizeInput(items: Item[], truckType = "pianale"): OptimizationInput {
+  return {
+    items,
+    truckType,
+    truckConfig: TRUCK_CONFIGURATIONS[truckType],
+    airbagInventory: NO_AIRBAGS
+  };
+}
+
+export function optimize(items: Item[], truckType = "pianale") {
+  return PackingAlgorithm.optimize(optimizeInput(items, truckType));
+}
@@ -0,0 +1,169 @@
+// x/width run along the truck length from the front wall, y/height across it
+export interface TruckZone {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  name: string;
+  maxWeight?: number; // kg of payload whose footprint centre lies in the zone
+  allowedTypes?: string[]; // item types the zone accepts; all when unset
+}
+
+// Tractor unit pulling a semi-trailer; the kingpin load is shared between its axles
+export interface TractorGeometry {
+  wheelbase: number; // steer axle to drive axle (cm)
+  fifthWheelOffset: number; // fifth wheel ahead of the drive axle (cm)
+  steerTare: number; // unladen steer axle load (kg)
+  driveTare: number; // unladen drive axle load (kg)
+  steerLimit: number; // kg
+  driveLimit: number; // kg
+}
+
+// Positions are measured along the body from its front wall and may lie outside the load space
+export interface AxleGeometry {
+  frontPosition: number; // kingpin of a semi-trailer, front axle of a drawbar trailer (cm)
+  rearPosition: number; // centre of the rear axle group (cm)
+  frontTare: number; // unladen load on the kingpin / front axle (kg)
+  rearTare: number; // unladen load on the rear axle group (kg)
+  tractor?: TractorGeometry;
+}
+
+// Where the payload's centre of gravity may lie before the plan is flagged
+export interface CogTolerance {
+  longitudinal: { min: number; max: number }; // cm from the front wall
+  lateral: number; // max offset from the centreline (cm)
+  vertical: number; // max height above the load floor (cm)
+}
+
+export interface TruckConfig {
+  name: string;
+  length: number; // cm
+  width: number; // cm
+  height: number; // cm
+  maxWeight: number; // kg
+  frontAxleLimit: number; // kg on the kingpin / front axle, tare included
+  rearAxleLimit: number; // kg on the rear axle group, tare included
+  axles: AxleGeometry;
+  cogTolerance: CogTolerance;
+  blockingCapacity: { front: number; rear: number; sides: number }; // daN each wall can take, 0 if open
+  zones: TruckZone[];
+}
+
+const SEMI_TRAILER_TRACTOR: TractorGeometry = {
+  wheelbase: 370,
+  fifthWheelOffset: 50,
+  steerTare: 5200,
+  driveTare: 2600,
+  steerLimit: 7500,
+  driveLimit: 11500
+};
+
+export const TRUCK_CONFIGURATIONS: Record<string, TruckConfig> = {
+  pianale: {
+    name: "Pianale (13.6m x 2.48m)",
+    length: 1360,
+    width: 248,
+    height: 270,
+    maxWeight: 24000,
+    frontAxleLimit: 12000,
+    rearAxleLimit: 24000,
+    axles: { frontPosition: 120, rearPosition: 900, frontTare: 2000, rearTare: 4500, tractor: SEMI_TRAILER_TRACTOR },
+    cogTolerance: { longitudinal: { min: 300, max: 1000 }, lateral: 25, vertical: 140 },
+    blockingCapacity: { front: 5000, rear: 0, sides: 0 },
+    zones: [
+      { x: 0, y: 0, width: 680, height: 248, name: "Front Zone", maxWeight: 14000 },
+      { x: 680, y: 0, width: 680, height: 248, name: "Rear Zone", maxWeight: 14000 }
+    ]
+  },
+  frigo: {
+    name: "Frigo (13.6m x 2.48m)",
+    length: 1360,
+    width: 248,
+    height: 250,
+    maxWeight: 24000,
+    frontAxleLimit: 12000,
+    rearAxleLimit: 24000,
+    axles: { frontPosition: 120, rearPosition: 900, frontTare: 2800, rearTare: 5700, tractor: SEMI_TRAILER_TRACTOR },
+    cogTolerance: { longitudinal: { min: 300, max: 1000 }, lateral: 25, vertical: 130 },
+    blockingCapacity: { front: 5000, rear: 3100, sides: 3700 },
+    zones: [
+      { x: 0, y: 0, width: 680, height: 248, name: "Front Zone", maxWeight: 14000 },
+      { x: 680, y: 0, width: 680, height: 248, name: "Rear Zone", maxWeight: 14000 }
+    ]
+  },
+  container: {
+    name: "Container (12m x 2.35m)",
+    length: 1200,
+    width: 235,
+    height: 259,
+    maxWeight: 28000,
+    frontAxleLimit: 12000,
+    rearAxleLimit: 24000,
+    axles: { frontPosition: 100, rearPosition: 880, frontTare: 2500, rearTare: 6000, tractor: SEMI_TRAILER_TRACTOR },
+    cogTolerance: { longitudinal: { min: 250, max: 900 }, lateral: 25, vertical: 130 },
+    blockingCapacity: { front: 11200, rear: 11200, sides: 16800 },
+    zones: [
+      { x: 0, y: 0, width: 600, height: 235, name: "Front Zone", maxWeight: 16000 },
+      { x: 600, y: 0, width: 600, height: 235, name: "Rear Zone", maxWeight: 16000 }
+    ]
+  },
+  rimorchio: {
+    name: "Rimorchio (13.6m x 2.48m)",
+    length: 1360,
+    width: 248,
+    height: 270,
+    maxWeight: 24000,
+    frontAxleLimit: 10000,
+    rearAxleLimit: 18000,
+    axles: { frontPosition: 150, rearPosition: 1100, frontTare: 2500, rearTare: 3500 },
+    cogTolerance: { longitudinal: { min: 350, max: 950 }, lateral: 25, vertical: 140 },
+    blockingCapacity: { front: 5000, rear: 0, sides: 0 },
+    zones: [
+      { x: 0, y: 0, width: 680, height: 248, name: "Front Zone", maxWeight: 14000 },
+      { x: 680, y: 0, width: 680, height: 248, name: "Rear Zone", maxWeight: 14000 }
+    ]
+  }
+};
+
+export interface ItemDimensions {
+  width: number;
+  height: number;
+  depth: number; // default load height (cm)
+  stackable?: boolean;
+  maxLayers?: number;
+}
+
+export interface TankDimensions {
+  diameter: number;
+  depth: number; // standing height (cm)
+  stackable: false;
+}
+
+export const ITEM_CONFIGURATIONS = {
+  pallet: {
+    europallet: { width: 120, height: 80, depth: 150, stackable: false } as ItemDimensions,
+    industrial: { width: 120, height: 100, depth: 150, stackable: false } as ItemDimensions,
+    custom: { width: 100, height: 100, depth: 150, stackable: false } as ItemDimensions // Default for custom
+  },
+  tank: {
+    small: { diameter: 60, depth: 90, stackable: false } as TankDimensions,
+    big: { diameter: 100, depth: 120, stackable: false } as TankDimensions
+  },
+  EWC: {
+    "800x1200": { width: 80, height: 120, depth: 115, stackable: true, maxLayers: 2 } as ItemDimensions,
+    "1000x1200": { width: 100, height: 120, depth: 115, stackable: true, maxLayers: 2 } as ItemDimensions
+  }
+};
+
+export interface AirbagConfig {
+  width: number;
+  height: number;
+  depth: number;
+}
+
+export const AIRBAG_CONFIGURATIONS: Record<string, AirbagConfig> = {
+  standard: { width: 240, height: 100, depth: 80 },
+  small: { width: 80, height: 60, depth: 20 },
+  "3d": { width: 240, height: 100, depth: 80 },
+  pallet_stabilizer: { width: 120, height: 80, depth: 5 }
+};
@@ -0,0 +1,71 @@
+import { mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { Item } from "@shared/schema";
+import { PackingAlgorithm } from "./packing-algorithm";
+import { item, optimize, optimizeInput } from "./test-fixtures";
+import { explainUnplaced } from "./unplaced-advisor";
+
+function explain(items: Item[], truckType: string) {
+  return explainUnplaced(optimizeInput(items, truckType), optimize(items, truckType)).remainingItems;
+}
+
+test("goods without dimensions are asked for them", () => {
+  const [unit] = explain([item({ item_id: "ODD", type: "crate", subtype: "odd", number_of_items: 1, weight_kg: 300 })], "pianale");
+
+  assert.equal(unit.reason, "dimensions");
+  assert.equal(unit.suggestion, "Enter the length, width and height");
+});
+
+test("goods too tall for the truck are pointed to a truck they fit", () => {
+  const [unit] = explain([
+    item({ item_id: "TALL", type: "pallet", subtype: "europallet", number_of_items: 1, weight_kg: 300, height_cm: 260 })
+  ], "frigo");
+
+  assert.equal(unit.reason, "height");
+  assert.equal(unit.suggestion, "Fits on Pianale");
+});
+
+test("an order too big for the truck is pointed to the smallest truck that takes all of it", () => {
+  const remaining = explain([
+    item({ item_id: "P", type: "pallet", subtype: "europallet", number_of_items: 30, weight_kg: 6000 })
+  ], "container");
+
+  assert.ok(remaining.length > 0);
+  assert.ok(remaining.every(unit => unit.suggestion === "Whole order fits on Frigo"));
+});
+
+test("when no truck takes the order, the fewest units to take off are suggested", () => {
+  const tanks = item({ item_id: "T", type: "tank", subtype: "big", number_of_items: 2, weight_kg: 400 });
+  const pallets = (count: number) =>
+    item({ item_id: "P", type: "pallet", subtype: "europallet", number_of_items: count, weight_kg: 200 * count });
+  const remaining = explain([pallets(34), tanks], "pianale");
+
+  const match = remaining[0].suggestion?.match(/^Fits if (\d+) pallets? (is|are) removed$/);
+  assert.ok(match, remaining[0].suggestion);
+  const count = Number(match[1]);
+  const unplacedTanks = (pallet: number) =>
+    optimize([pallets(34 - pallet), tanks]).remainingItems.filter(unit => unit.item_id === "T").length;
+  assert.ok(unplacedTanks(count) < remaining.length);
+  assert.equal(unplacedTanks(count - 1), remaining.length);
+});
+
+test("orders with many kinds of goods are explained within a fixed number of packer runs", () => {
+  const items = Array.from({ length: 40 }, (_, index) => item({
+    item_id: `BOX${index}`, type: `box${index}`, subtype: "custom", number_of_items: 10, weight_kg: 50,
+    length_cm: 20, width_cm: 20, height_cm: 20
+  }));
+  items.push(item({
+    item_id: "CRATE", type: "crate", subtype: "custom", number_of_items: 1, weight_kg: 500,
+    length_cm: 1300, width_cm: 240, height_cm: 100
+  }));
+  const result = optimize(items);
+  assert.ok(result.remainingItems.length > 0);
+
+  const runs = mock.method(PackingAlgorithm, "optimize");
+  try {
+    explainUnplaced(optimizeInput(items), result);
+    assert.ok(runs.mock.callCount() <= 24, `${runs.mock.callCount()} packer runs`);
+  } finally {
+    runs.mock.restore();
+  }
+});
@@ -0,0 +1,206 @@
+import type { Item } from "@shared/schema";
+import { TRUCK_CONFIGURATIONS, type TruckConfig } from "./truck-configs";
+import { PackingAlgorithm, type OptimizationInput, type OptimizationOutput, type UnplacedItem } from "./packing-algorithm";
+
+// Each removal search re-runs the packer a few times, so only this many order lines get one
+const MAX_SEARCHED_LINES = 3;
+
+// Packer runs one explanation may spend, and the time after which it starts no more, however
+// many lines and kinds of goods the order has. Once it is spent, the units still to explain go
+// without a suggestion.
+const MAX_PACKER_RUNS = 24;
+const MAX_PACKER_MS = 2000;
+
+interface PackerBudget {
+  runs: number;
+  deadline: number;
+}
+
+const TYPE_NOUNS: Record<string, [string, string]> = {
+  pallet: ["pallet", "pallets"],
+  tank: ["tank", "tanks"],
+  EWC: ["EWC", "EWCs"],
+  other: ["other item", "other items"]
+};
+
+/**
+ * Adds a suggestion to each unit a plan left off the truck: which other truck type takes the unit
+ * or the whole order, or how many units of goods already loaded would have to come off for it to
+ * fit. Units of one order line with the same reason share a suggestion. Runs the packer again,
+ * within a fixed budget of runs and time, so call it on a finished plan rather than inside a search.
+ */
+export function explainUnplaced(input: OptimizationInput, result: OptimizationOutput): OptimizationOutput {
+  if (result.remainingItems.length === 0) return result;
+
+  const budget: PackerBudget = { runs: MAX_PACKER_RUNS, deadline: Date.now() + MAX_PACKER_MS };
+  let wholeOrder: string | null | undefined;
+  const findWholeOrder = () => (wholeOrder === undefined ? (wholeOrder = findTruckForOrder(input, budget)) : wholeOrder);
+  const suggestions = new Map<string, string | undefined>();
+  let searchedLines = 0;
+
+  for (const item of result.remainingItems) {
+    const key = `${item.item_id}|${item.reason}`;
+    if (!suggestions.has(key)) {
+      let suggestion: string | undefined;
+      switch (item.reason) {
+        case "dimensions":
+          suggestion = "Enter the length, width and height";
+          break;
+        case "height": {
+          const truck = findTruckForUnit(input, item, budget);
+          if (truck) suggestion = `Fits on ${getTruckName(truck)}`;
+          break;
+        }
+        case "zone":
+          // A pinned zone this truck lacks needs another truck; a full zone is a matter of room
+          if (item.pinned_zone && !input.truckConfig.zones.some(zone => zone.name === item.pinned_zone)) {
+            const truck = findTruckForUnit(input, item, budget);
+            if (truck) suggestion = `Fits on ${getTruckName(truck)}`;
+            break;
+          }
+        // falls through
+        default: {
+          const truck = findWholeOrder();
+          if (truck) {
+            suggestion = `Whole order fits on ${getTruckName(truck)}`;
+          } else if (searchedLines < MAX_SEARCHED_LINES) {
+            searchedLines++;
+            suggestion = findRemoval(input, result, item, budget);
+          }
+          if (!suggestion && item.reason === "adr") suggestion = "Carry on a separate truck";
+        }
+      }
+      suggestions.set(key, suggestion);
+    }
+    item.suggestion = suggestions.get(key);
+  }
+
+  return result;
+}
+
+// "Container (12m x 2.35m)" reads as "Container"
+function getTruckName(truckType: string): string {
+  return TRUCK_CONFIGURATIONS[truckType].name.replace(/\s*\(.*\)$/, "");
+}
+
+// Packs within the budget; null once it is spent
+function pack(input: OptimizationInput, budget: PackerBudget): OptimizationOutput | null {
+  if (budget.runs <= 0 || Date.now() >= budget.deadline) return null;
+  budget.runs--;
+  return PackingAlgorithm.optimize(input);
+}
+
+// The smallest other truck type that takes the whole order
+function findTruckForOrder(input: OptimizationInput, budget: PackerBudget): string | null {
+  return findTruck(input, budget, config => ({ ...input, truckConfig: config, lockedItems: [] }));
+}
+
+// The smallest other truck type that takes the unit on its own
+function findTruckForUnit(input: OptimizationInput, item: UnplacedItem, budget: PackerBudget): string | null {
+  return findTruck(input, budget, config => ({ ...input, items: [toItem(item)], truckConfig: config, lockedItems: [] }));
+}
+
+function findTruck(
+  input: OptimizationInput,
+  budget: PackerBudget,
+  buildInput: (config: TruckConfig) => OptimizationInput
+): string | null {
+  const candidates = Object.entries(TRUCK_CONFIGURATIONS)
+    .filter(([truckType]) => truckType !== input.truckType)
+    .sort(([, a], [, b]) => a.length * a.width * a.height - b.length * b.width * b.height);
+
+  for (const [truckType, config] of candidates) {
+    const result = pack({ ...buildInput(config), truckType }, budget);
+    if (!result) return null;
+    if (result.remainingItems.length === 0) return truckType;
+  }
+  return null;
+}
+
+/**
+ * Fewest units of one kind of goods to take off the order so that one more unit of the item's
+ * line is loaded. Counts are searched by doubling and then halving, which assumes that taking off
+ * more units never makes room for fewer. Once the budget is spent the best count found so far
+ * is kept.
+ */
+function findRemoval(
+  input: OptimizationInput,
+  result: OptimizationOutput,
+  item: UnplacedItem,
+  budget: PackerBudget
+): string | undefined {
+  const unplaced = countUnplaced(result, item.item_id);
+  const others = input.items.filter(line => line.item_id !== item.item_id);
+  let best: { type: string; count: number } | null = null;
+
+  let spent = false;
+
+  for (const type of Array.from(new Set(others.map(line => line.type)))) {
+    const available = others
+      .filter(line => line.type === type)
+      .reduce((sum, line) => sum + line.number_of_items, 0);
+    const fits = (count: number) => {
+      const trial = pack({ ...input, items: removeUnits(input.items, type, count, item.item_id) }, budget);
+      if (!trial) spent = true;
+      return trial !== null && countUnplaced(trial, item.item_id) < unplaced;
+    };
+
+    // Never search past a count another type already beats
+    const limit = Math.min(available, best ? best.count - 1 : available);
+    let low = 1; // fewest units not yet ruled out
+    let high = 1;
+    while (high <= limit && !fits(high) && !spent) {
+      low = high + 1;
+      high = high === limit ? limit + 1 : Math.min(high * 2, limit);
+    }
+    if (spent) break;
+    if (high > limit) continue;
+
+    // high fits, so a spent budget still leaves a count that works
+    while (low < high && !spent) {
+      const middle = Math.floor((low + high) / 2);
+      if (fits(middle)) high = middle;
+      else low = middle + 1;
+    }
+    best = { type, count: high };
+    if (spent) break;
+  }
+
+  if (!best) return undefined;
+  const [singular, plural] = TYPE_NOUNS[best.type] ?? [`${best.type} item`, `${best.type} items`];
+  return `Fits if ${best.count} ${best.count === 1 ? `${singular} is` : `${plural} are`} removed`;
+}
+
+// Takes up to `count` units of the given type off the order, from the last line up and never
+// from the item's own line
+function removeUnits(items: Item[], type: string, count: number, keepId: string): Item[] {
+  const result = [...items];
+  let left = count;
+  for (let index = result.length - 1; index >= 0 && left > 0; index--) {
+    const line = result[index];
+    if (line.type !== type || line.item_id === keepId) continue;
+
+    const taken = Math.min(left, line.number_of_items);
+    const unitWeight = line.weight_kg / line.number_of_items;
+    left -= taken;
+    if (taken === line.number_of_items) {
+      result.splice(index, 1);
+    } else {
+      result[index] = {
+        ...line,
+        number_of_items: line.number_of_items - taken,
+        weight_kg: unitWeight * (line.number_of_items - taken)
+      };
+    }
+  }
+  return result;
+}
+
+function countUnplaced(result: OptimizationOutput, itemId: string): number {
+  return result.remainingItems.filter(item => item.item_id === itemId).length;
+}
+
+function toItem(item: UnplacedItem): Item {
+  const { reason, suggestion, ...rest } = item;
+  return rest;
+}
@@ -2,6 +2,13 @@ import { pgTable, text, serial, integer, real, boolean, jsonb } from "drizzle-or
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// How an item may be turned on the floor: freely, never, or only with its long side along the truck
+export const rotationModes = ["allowed", "forbidden", "lengthwise"] as const;
+export const packingGroups = ["I", "II", "III"] as const;
+export const handlingFlags = ["fragile", "no_stack", "keep_upright", "away_from_doors"] as const;
+// Item types that stack even when their subtype is not in the catalog
+export const stackableTypes: readonly string[] = ["EWC"];
+
 export const items = pgTable("items", {
   id: serial("id").primaryKey(),
   item_id: text("item_id").notNull(),
@@ -9,6 +16,20 @@ export const items = pgTable("items", {
   subtype: text("subtype").notNull(),
   number_of_items: integer("number_of_items").notNull(),
   weight_kg: real("weight_kg").notNull(),
+  length_cm: real("length_cm"), // Overrides the catalog footprint along the truck when set
+  width_cm: real("width_cm"), // Overrides the catalog footprint across the truck (tank diameter) when set
+  height_cm: real("height_cm"), // Overrides the catalog load height when set
+  rotation: text("rotation", { enum: rotationModes }).notNull().default("allowed"),
+  delivery_stop: integer("delivery_stop"), // 1 = first drop; unset goods travel to the end of the route
+  pinned_zone: text("pinned_zone"), // name of the truck zone the item must be loaded in
+  un_number: text("un_number"), // dangerous goods only, e.g. "1203"
+  adr_class: text("adr_class"), // ADR class or division, e.g. "3" or "5.1"
+  packing_group: text("packing_group", { enum: packingGroups }),
+  fragile: boolean("fragile").notNull().default(false), // carries no top load
+  no_stack: boolean("no_stack").notNull().default(false), // nothing may be stacked on it
+  max_top_load_kg: real("max_top_load_kg"), // weight the item may carry; unset = no limit
+  keep_upright: boolean("keep_upright").notNull().default(false), // this side up
+  away_from_doors: boolean("away_from_doors").notNull().default(false), // not in the strip behind the doors
   stackable: boolean("stackable").notNull().default(false),
 });
 
@@ -26,7 +47,13 @@ export const optimizationResults = pgTable("optimization_results", {
   created_at: text("created_at").notNull().default('now()'),
 });
 
-export const insertItemSchema = createInsertSchema(items).omit({
+export const insertItemSchema = createInsertSchema(items, {
+  length_cm: schema => schema.positive(),
+  width_cm: schema => schema.positive(),
+  height_cm: schema => schema.positive(),
+  delivery_stop: schema => schema.int().min(1), // stops are numbered from 1
+  max_top_load_kg: schema => schema.min(0),
+}).omit({
   id: true,
   stackable: true,
 });
@@ -55,11 +82,54 @@ export const placedItemSchema = z.object({
   subtype: z.string(),
   x: z.number(),
   y: z.number(),
+  z: z.number(), // Distance from the truck floor (cm)
   width: z.number(),
   height: z.number(),
+  depth: z.number(), // Vertical extent (cm)
+  rotated: z.boolean(), // Turned 90° from the catalog orientation
   weight: z.number(),
   zone: z.string(),
+  layer: z.number(), // 1 = standing on the floor
+  stackId: z.string().optional(), // Shared by all items of one stack
+  stop: z.number().optional(), // Delivery stop of the item, when set
+  adrClass: z.string().optional(), // ADR class of dangerous goods
+  handling: z.array(z.enum(handlingFlags)).optional(), // Handling flags set on the item
+  maxTopLoad: z.number().optional(), // Weight the item may carry (kg), when limited
+  locked: z.boolean().optional(), // Kept at this position when the plan is optimised again
+});
+
+export const placedAirbagSchema = z.object({
+  type: z.enum(["standard", "small", "3d", "pallet_stabilizer"]),
+  x: z.number(),
+  y: z.number(),
+  width: z.number(), // Floor footprint, across the truck
+  height: z.number(), // Floor footprint, along the truck
+  depth: z.number(), // Vertical extent (cm)
+});
+
+// Far more than one truck holds; keeps a single request from tying up the server
+export const MAX_REQUEST_LINES = 200;
+export const MAX_REQUEST_UNITS = 2000;
+
+// Server-side optimisation for callers without a browser; item lines as for POST /api/items,
+// with real quantities and weights
+export const optimizeRequestSchema = z.object({
+  truck_type: z.string(),
+  items: z.array(insertItemSchema.extend({
+    number_of_items: z.number().int().positive().max(MAX_REQUEST_UNITS),
+    weight_kg: z.number().positive(),
+  })).min(1).max(MAX_REQUEST_LINES).refine(
+    items => items.reduce((sum, item) => sum + item.number_of_items, 0) <= MAX_REQUEST_UNITS,
+    { message: `At most ${MAX_REQUEST_UNITS} units per request` }
+  ),
+  airbag_inventory: airbagUsageSchema,
+  adr_equipped: z.boolean().optional(),
 });
 
+export type RotationMode = typeof rotationModes[number];
+export type PackingGroup = typeof packingGroups[number];
+export type HandlingFlag = typeof handlingFlags[number];
 export type AirbagUsage = z.infer<typeof airbagUsageSchema>;
 export type PlacedItem = z.infer<typeof placedItemSchema>;
+export type PlacedAirbag = z.infer<typeof placedAirbagSchema>;
+export type OptimizeRequest = z.infer<typeof optimizeRequestSchema>;